@@ -0,0 +1,84 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { SaveImagesOfflineSettings } from './settings';
+import { renderTemplate, formatDateToken, getDomainToken } from './templates';
+import { sanitizeFilename } from './utils';
+
+/**
+ * Works out the vault folder an image should be saved to
+ * @param app The Obsidian app
+ * @param settings Plugin settings
+ * @param file The note the image belongs to, or null if unknown
+ * @param imageUrl The URL the image was downloaded from
+ * @param filename The filename the image will be saved under
+ * @returns The folder path (empty string for the vault root)
+ */
+export async function resolveImageFolder(
+    app: App,
+    settings: SaveImagesOfflineSettings,
+    file: TFile | null,
+    imageUrl: string,
+    filename: string
+): Promise<string> {
+    const noteFolder = file && file.parent ? file.parent.path : '';
+
+    switch (settings.imageLocation) {
+        case 'obsidian': {
+            // Let Obsidian apply its "Default location for new attachments" option.
+            // Only the folder is kept: whether an existing file is reused is decided by us.
+            const attachmentPath = await app.fileManager.getAvailablePathForAttachment(
+                filename,
+                file ? file.path : undefined
+            );
+            return getParentFolder(attachmentPath);
+        }
+        case 'template':
+            return expandFolderTemplate(settings.imagePathTemplate, file, imageUrl);
+        case 'note-folder':
+        default:
+            if (!file) {
+                // Fallback to the global image folder setting if no file is provided
+                return normalizeFolder(settings.imageFolder);
+            }
+            // If imageFolder is specified, it's a subfolder within the note folder
+            return normalizeFolder(`${noteFolder}/${settings.imageFolder}`);
+    }
+}
+
+/**
+ * Expands a destination path template
+ * Supported tokens: {{notename}}, {{notepath}}, {{date}}, {{date:FORMAT}}, {{domain}} and {{vault-root}}
+ * @param template The path template
+ * @param file The note the image belongs to, or null if unknown
+ * @param imageUrl The URL the image was downloaded from
+ * @returns The folder path (empty string for the vault root)
+ */
+export function expandFolderTemplate(template: string, file: TFile | null, imageUrl: string): string {
+    const folder = renderTemplate(template, {
+        'notename': () => file ? sanitizeFilename(file.basename) : '',
+        'notepath': () => file && file.parent ? file.parent.path : '',
+        'date': formatDateToken,
+        'domain': () => sanitizeFilename(getDomainToken(imageUrl)),
+        'vault-root': () => '/'
+    });
+    return normalizeFolder(folder);
+}
+
+/**
+ * Gets the folder part of a vault path
+ * @param filePath The vault path of a file
+ * @returns The folder path (empty string for the vault root)
+ */
+function getParentFolder(filePath: string): string {
+    const index = filePath.lastIndexOf('/');
+    return index === -1 ? '' : filePath.substring(0, index);
+}
+
+/**
+ * Normalizes a folder path, mapping the vault root to an empty string
+ * @param folder The folder path
+ * @returns The normalized folder path
+ */
+function normalizeFolder(folder: string): string {
+    const normalized = normalizePath(folder);
+    return normalized === '/' ? '' : normalized;
+}
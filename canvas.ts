@@ -0,0 +1,141 @@
+import { TFile } from 'obsidian';
+import {
+    ImageProcessorContext,
+    ProcessingStats,
+    createStats,
+    localizeImage,
+    processContent,
+    replaceImageUrl
+} from './imageProcessor';
+import { isLikelyImageUrl } from './utils';
+import { log } from './logger';
+
+/**
+ * A node of a canvas, as stored in the .canvas JSON
+ * Only the properties used here are typed; everything else is kept as it is.
+ */
+export interface CanvasNode {
+    id: string;
+    type: string;
+    // Markdown of text nodes
+    text?: string;
+    // Target of link nodes
+    url?: string;
+    // Vault path of file nodes
+    file?: string;
+    [key: string]: unknown;
+}
+
+export interface CanvasData {
+    nodes?: CanvasNode[];
+    [key: string]: unknown;
+}
+
+/**
+ * Processes a canvas file to find and download images
+ * Link nodes pointing at remote images become file nodes pointing at the saved images, and the
+ * markdown of text nodes is processed like a note. Node IDs, positions, sizes, colors and edges
+ * are left as they are.
+ * @param file The canvas file to process
+ * @param ctx The plugin services used for processing
+ * @param signal Cancels the downloads that haven't finished yet
+ * @returns Object containing the original and updated content, whether any node changed and stats about the processing
+ * @throws Error if the file isn't valid canvas JSON
+ */
+export async function processCanvasFile(
+    file: TFile,
+    ctx: ImageProcessorContext,
+    signal?: AbortSignal
+): Promise<{
+    content: string,
+    originalContent: string,
+    changed: boolean,
+    stats: ProcessingStats
+}> {
+    const originalContent = await ctx.app.vault.read(file);
+    const stats = createStats();
+
+    if (!originalContent.trim()) {
+        // New canvases start out empty
+        return { content: originalContent, originalContent, changed: false, stats };
+    }
+
+    let canvas: CanvasData;
+    try {
+        canvas = JSON.parse(originalContent);
+    } catch (error) {
+        throw new Error(`${file.path} is not a valid canvas: ${error.message}`);
+    }
+
+    const nodes = Array.isArray(canvas.nodes) ? canvas.nodes : [];
+    let index = 0;
+    let changed = false;
+    await Promise.all(nodes.map(async node => {
+        if (node.type === 'text' && typeof node.text === 'string') {
+            const text = await processContent(node.text, file, ctx, stats, signal);
+            if (text !== node.text) {
+                node.text = text;
+                changed = true;
+            }
+        } else if (node.type === 'link' && typeof node.url === 'string' &&
+            /^https?:\/\//i.test(node.url) && isLikelyImageUrl(node.url)) {
+            const imageUrl = node.url;
+            const localized = await localizeImage(imageUrl, ctx, { file, altText: '', index: ++index }, stats, signal);
+            if (localized.action === 'replace') {
+                log.debug(`Replacing link node ${node.id} with ${localized.localPath}`);
+                // A canvas can't hold a source comment, so comment mode keeps the source in the image index
+                ctx.provenance.record({ localPath: localized.localPath, url: imageUrl, notePath: file.path });
+                node.type = 'file';
+                delete node.url;
+                node.file = localized.localPath;
+                changed = true;
+            }
+        }
+    }));
+
+    const content = changed ? JSON.stringify(canvas, null, detectIndent(originalContent)) : originalContent;
+    return { content, originalContent, changed, stats };
+}
+
+/**
+ * Points the link nodes and text node images that use a URL at another URL
+ * @param content The canvas JSON
+ * @param oldUrl The URL to replace
+ * @param newUrl The URL to use instead
+ * @returns The updated canvas JSON, or the content as it is if it isn't a valid canvas
+ */
+export function replaceCanvasImageUrl(content: string, oldUrl: string, newUrl: string): string {
+    let canvas: CanvasData;
+    try {
+        canvas = JSON.parse(content);
+    } catch (error) {
+        log.warn(`Could not parse canvas: ${error.message}`);
+        return content;
+    }
+
+    let changed = false;
+    for (const node of Array.isArray(canvas.nodes) ? canvas.nodes : []) {
+        if (node.type === 'link' && node.url === oldUrl) {
+            node.url = newUrl;
+            changed = true;
+        } else if (node.type === 'text' && typeof node.text === 'string') {
+            const text = replaceImageUrl(node.text, oldUrl, newUrl);
+            if (text !== node.text) {
+                node.text = text;
+                changed = true;
+            }
+        }
+    }
+
+    return changed ? JSON.stringify(canvas, null, detectIndent(content)) : content;
+}
+
+/**
+ * Detects the indentation of a JSON file, so rewriting it keeps the diff small
+ * @param json The JSON text
+ * @returns The indentation; Obsidian writes canvases with tabs
+ */
+export function detectIndent(json: string): string {
+    const match = /\n([ \t]+)\S/.exec(json);
+    return match ? match[1] : '\t';
+}
@@ -0,0 +1,191 @@
+import { ImageType } from './imageTypes';
+import { log } from './logger';
+
+/**
+ * Format an image is converted to
+ * - keep: save the original bytes
+ */
+export type ConversionTarget = 'keep' | 'png' | 'jpg' | 'webp';
+
+/**
+ * A rule of the conversion stage
+ */
+export interface ConversionRule {
+    // Comma-separated source formats, e.g. "webp, avif"; "*" matches all formats, "!gif" excludes one
+    formats: string;
+    target: ConversionTarget;
+    // Quality of JPEG and WebP output (1-100)
+    quality: number;
+}
+
+/**
+ * Image data after the conversion stage
+ */
+export interface ConvertedImage {
+    data: ArrayBuffer;
+    type: ImageType;
+}
+
+/**
+ * MIME types of the formats a canvas can encode
+ */
+export const TARGET_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    webp: 'image/webp'
+};
+
+/**
+ * Finds the first rule matching an image format
+ * "*" doesn't match SVG, which is only rasterized when listed explicitly.
+ * @param rules The conversion rules, in order
+ * @param extension The extension of the image format
+ * @returns The matching rule, or null if none matches
+ */
+export function findConversionRule(rules: ConversionRule[], extension: string): ConversionRule | null {
+    for (const rule of rules) {
+        const formats = rule.formats.split(',')
+            .map(format => format.trim().toLowerCase().replace(/^(!?)jpeg$/, '$1jpg'))
+            .filter(format => format.length > 0);
+
+        if (formats.includes(`!${extension}`)) {
+            continue;
+        }
+        if (formats.includes(extension) || (formats.includes('*') && extension !== 'svg')) {
+            return rule;
+        }
+    }
+    return null;
+}
+
+/**
+ * Converts an image according to the conversion rules
+ * Animated images are never converted, since a canvas only keeps their first frame. When the
+ * platform can't decode the source format or encode the target format, the original bytes are kept.
+ * @param data The image data
+ * @param type The detected type of the image
+ * @param rules The conversion rules, in order
+ * @returns The converted image, or the original if no conversion applies or it failed
+ */
+export async function convertImage(data: ArrayBuffer, type: ImageType, rules: ConversionRule[]): Promise<ConvertedImage> {
+    const original = { data, type };
+    const rule = findConversionRule(rules, type.extension);
+    if (!rule || rule.target === 'keep' || rule.target === type.extension) {
+        return original;
+    }
+    if (type.animated) {
+        log.debug(`Keeping animated ${type.extension} image instead of converting it to ${rule.target}`);
+        return original;
+    }
+
+    const mimeType = TARGET_MIME_TYPES[rule.target];
+    try {
+        const image = await decodeImage(data, type.mimeType);
+        const canvas = drawToCanvas(image, image.naturalWidth, image.naturalHeight, rule.target === 'jpg');
+        const converted = await encodeCanvas(canvas, mimeType, rule.quality);
+        log.debug(`Converted ${type.extension} image to ${rule.target} (${data.byteLength} -> ${converted.byteLength} bytes)`);
+        return {
+            data: converted,
+            type: { extension: rule.target, mimeType, animated: false }
+        };
+    } catch (error) {
+        log.warn(`Could not convert ${type.extension} image to ${rule.target}, keeping the original: ${error.message}`);
+        return original;
+    }
+}
+
+/**
+ * Decodes image data with the platform's image decoder
+ * @param data The image data
+ * @param mimeType The MIME type of the data
+ * @returns The loaded image element
+ * @throws Error if the platform can't decode the image
+ */
+export function decodeImage(data: ArrayBuffer, mimeType: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            if (img.naturalWidth === 0 || img.naturalHeight === 0) {
+                reject(new Error(`Decoded ${mimeType} image has no size`));
+                return;
+            }
+            resolve(img);
+        };
+
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Failed to decode ${mimeType} image`));
+        };
+
+        img.src = url;
+    });
+}
+
+/**
+ * Draws an image onto a new canvas
+ * @param image The decoded image
+ * @param width Width of the canvas
+ * @param height Height of the canvas
+ * @param opaque Fill transparent areas with white, for formats without transparency
+ * @returns The canvas
+ * @throws Error if no 2D context is available
+ */
+export function drawToCanvas(image: HTMLImageElement, width: number, height: number, opaque: boolean): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Failed to get canvas context');
+    }
+
+    if (opaque) {
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas;
+}
+
+/**
+ * Encodes the contents of a canvas
+ * @param canvas The canvas
+ * @param mimeType The MIME type to encode to
+ * @param quality Quality of lossy formats (1-100)
+ * @returns The encoded image data
+ * @throws Error if the platform can't encode the format (browsers fall back to PNG silently)
+ */
+export function encodeCanvas(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => {
+                if (!blob) {
+                    reject(new Error(`Failed to encode ${mimeType}`));
+                    return;
+                }
+                if (blob.type !== mimeType) {
+                    reject(new Error(`Encoding ${mimeType} is not supported on this platform`));
+                    return;
+                }
+
+                const reader = new FileReader();
+                reader.onload = () => {
+                    if (reader.result instanceof ArrayBuffer) {
+                        resolve(reader.result);
+                    } else {
+                        reject(new Error(`Failed to read encoded ${mimeType}`));
+                    }
+                };
+                reader.onerror = () => reject(reader.error);
+                reader.readAsArrayBuffer(blob);
+            },
+            mimeType,
+            quality / 100
+        );
+    });
+}
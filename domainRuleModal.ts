@@ -0,0 +1,114 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DomainAuthType, DomainRule } from './domainRules';
+
+/**
+ * Edits one domain rule
+ * Changes are made to a copy and only handed back when saved.
+ */
+export class DomainRuleModal extends Modal {
+    private rule: DomainRule;
+
+    /**
+     * @param app The Obsidian app
+     * @param rule The rule to edit
+     * @param onSave Called with the edited rule when the user saves it
+     */
+    constructor(app: App, rule: DomainRule, private onSave: (rule: DomainRule) => void) {
+        super(app);
+        this.rule = Object.assign({}, rule);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('Domain rule');
+
+        new Setting(contentEl)
+            .setName('Host')
+            .setDesc('Host name or glob, e.g. wiki.example.com or *.githubusercontent.com')
+            .addText(text => text
+                .setPlaceholder('*.example.com')
+                .setValue(this.rule.host)
+                .onChange(value => this.rule.host = value.trim()));
+
+        new Setting(contentEl)
+            .setName('Referer')
+            .setDesc('Referer sent with requests. Leave empty for the image\'s own origin, or enter "none" to send no referer')
+            .addText(text => text
+                .setPlaceholder('https://example.com/')
+                .setValue(this.rule.referer)
+                .onChange(value => this.rule.referer = value));
+
+        new Setting(contentEl)
+            .setName('User agent')
+            .setDesc('Leave empty for the default user agent')
+            .addText(text => text
+                .setValue(this.rule.userAgent)
+                .onChange(value => this.rule.userAgent = value));
+
+        new Setting(contentEl)
+            .setName('Authentication')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'None')
+                .addOption('bearer', 'Bearer token')
+                .addOption('basic', 'Basic (user:password)')
+                .setValue(this.rule.authType)
+                .onChange(value => this.rule.authType = value as DomainAuthType))
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.inputEl.autocomplete = 'off';
+                text
+                    .setPlaceholder('Token or user:password')
+                    .setValue(this.rule.credential)
+                    .onChange(value => this.rule.credential = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Extra headers')
+            .setDesc('One "Name: value" per line')
+            .addTextArea(text => text
+                .setPlaceholder('X-Api-Key: ...')
+                .setValue(this.rule.headers)
+                .onChange(value => this.rule.headers = value));
+
+        new Setting(contentEl)
+            .setName('Timeout (ms)')
+            .setDesc('0 to use the global download timeout')
+            .addText(text => text
+                .setValue(String(this.rule.timeout))
+                .onChange(value => {
+                    const timeout = Number(value);
+                    if (!isNaN(timeout) && timeout >= 0) {
+                        this.rule.timeout = timeout;
+                    }
+                }));
+
+        new Setting(contentEl)
+            .setName('Retries')
+            .setDesc('0 to use the global retry count')
+            .addText(text => text
+                .setValue(String(this.rule.retries))
+                .onChange(value => {
+                    const retries = Number(value);
+                    if (!isNaN(retries) && retries >= 0) {
+                        this.rule.retries = Math.floor(retries);
+                    }
+                }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => {
+                    this.onSave(this.rule);
+                    this.close();
+                }))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
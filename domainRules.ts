@@ -0,0 +1,128 @@
+/**
+ * Authentication sent with requests matching a domain rule
+ * - bearer: Authorization: Bearer <credential>
+ * - basic: Authorization: Basic, with the credential as "user:password"
+ */
+export type DomainAuthType = 'none' | 'bearer' | 'basic';
+
+/**
+ * Request settings for the hosts matching a pattern
+ */
+export interface DomainRule {
+    // Host name or glob, e.g. "wiki.example.com" or "*.githubusercontent.com"
+    host: string;
+    // Extra request headers, one "Name: value" per line
+    headers: string;
+    // Referer to send: empty for the image's origin, "none" to send no referer
+    referer: string;
+    authType: DomainAuthType;
+    // Bearer token, or "user:password" for basic auth
+    credential: string;
+    // Empty to keep the default user agent
+    userAgent: string;
+    // 0 to use the global download timeout and retry count
+    timeout: number;
+    retries: number;
+}
+
+/**
+ * Creates a rule with nothing overridden
+ * @param host The host or glob the rule applies to
+ * @returns The new rule
+ */
+export function createDomainRule(host: string = ''): DomainRule {
+    return {
+        host,
+        headers: '',
+        referer: '',
+        authType: 'none',
+        credential: '',
+        userAgent: '',
+        timeout: 0,
+        retries: 0
+    };
+}
+
+/**
+ * Checks whether a host matches a host name or glob
+ * "*" matches any run of characters, so "*.example.com" matches every subdomain of example.com.
+ * @param host The host name
+ * @param pattern The host name or glob
+ * @returns True if the host matches
+ */
+export function matchesHostGlob(host: string, pattern: string): boolean {
+    const glob = pattern.trim().toLowerCase();
+    if (!glob) {
+        return false;
+    }
+    const regex = new RegExp('^' + glob.split('*').map(escapeRegExp).join('.*') + '$');
+    return regex.test(host.toLowerCase());
+}
+
+/**
+ * Finds the first rule matching the host of a URL
+ * @param rules The domain rules, in order
+ * @param url The URL
+ * @returns The matching rule, or null if none matches or the URL can't be parsed
+ */
+export function findDomainRule(rules: DomainRule[], url: string): DomainRule | null {
+    let host: string;
+    try {
+        host = new URL(url).hostname;
+    } catch (error) {
+        return null;
+    }
+
+    for (const rule of rules) {
+        if (matchesHostGlob(host, rule.host)) {
+            return rule;
+        }
+    }
+    return null;
+}
+
+/**
+ * Builds the request headers for downloading a URL
+ * @param url The URL to download
+ * @param rule The domain rule matching the URL, if any
+ * @returns The request headers
+ */
+export function buildRequestHeaders(url: string, rule: DomainRule | null): Record<string, string> {
+    const headers: Record<string, string> = {
+        'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
+        'Referer': new URL(url).origin
+    };
+    if (!rule) {
+        return headers;
+    }
+
+    if (rule.referer.trim().toLowerCase() === 'none') {
+        delete headers['Referer'];
+    } else if (rule.referer.trim()) {
+        headers['Referer'] = rule.referer.trim();
+    }
+
+    if (rule.userAgent.trim()) {
+        headers['User-Agent'] = rule.userAgent.trim();
+    }
+
+    if (rule.authType === 'bearer' && rule.credential) {
+        headers['Authorization'] = `Bearer ${rule.credential}`;
+    } else if (rule.authType === 'basic' && rule.credential) {
+        // btoa only takes Latin-1, so encode the credential as UTF-8 first
+        headers['Authorization'] = `Basic ${btoa(unescape(encodeURIComponent(rule.credential)))}`;
+    }
+
+    for (const line of rule.headers.split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+            headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+        }
+    }
+
+    return headers;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
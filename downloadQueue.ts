@@ -0,0 +1,190 @@
+import { SaveImagesOfflineSettings } from './settings';
+import { DownloadedImage, downloadImage } from './utils';
+import { HttpTransport } from './transport';
+import { buildRequestHeaders, findDomainRule } from './domainRules';
+import { log } from './logger';
+
+/**
+ * A download waiting for a free slot
+ */
+interface QueuedDownload {
+    url: string;
+    host: string;
+    signal?: AbortSignal;
+    // Removes the download from the queue when the signal aborts while it waits
+    onAbort?: () => void;
+    resolve: (image: DownloadedImage) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Error used when a download is cancelled before it finished
+ */
+export class DownloadCancelledError extends Error {
+    constructor(url: string) {
+        super(`Download cancelled: ${url}`);
+        this.name = 'DownloadCancelledError';
+    }
+}
+
+/**
+ * Central queue every image download goes through
+ * Enforces the global and per-host concurrency limits and the per-host request rate, and
+ * keeps counters for progress reporting.
+ */
+export class DownloadQueue {
+    private waiting: QueuedDownload[] = [];
+    private active = 0;
+    private activePerHost: Map<string, number> = new Map();
+    private lastStartPerHost: Map<string, number> = new Map();
+    private wakeTimer: number | null = null;
+
+    // Total bytes downloaded since the plugin was loaded
+    bytesDownloaded = 0;
+
+    /**
+     * @param getSettings Returns the current plugin settings
+     * @param getTransport Returns the transport downloads are made with
+     */
+    constructor(
+        private getSettings: () => SaveImagesOfflineSettings,
+        private getTransport: () => HttpTransport
+    ) {}
+
+    /**
+     * Number of downloads currently running
+     */
+    get activeCount(): number {
+        return this.active;
+    }
+
+    /**
+     * Number of downloads waiting for a slot
+     */
+    get pendingCount(): number {
+        return this.waiting.length;
+    }
+
+    /**
+     * Downloads an image once a slot is free
+     * @param url The URL of the image
+     * @param signal Aborts the download, whether it is still waiting or already running
+     * @returns The image data and its Content-Type
+     * @throws DownloadError if the download failed
+     * @throws ImageSkippedError if the image is larger than the maximum download size
+     * @throws DownloadCancelledError if the signal aborts before the download finished
+     */
+    download(url: string, signal?: AbortSignal): Promise<DownloadedImage> {
+        if (signal && signal.aborted) {
+            return Promise.reject(new DownloadCancelledError(url));
+        }
+
+        return new Promise((resolve, reject) => {
+            const entry: QueuedDownload = { url, host: getHost(url), signal, resolve, reject };
+
+            if (signal) {
+                entry.onAbort = () => {
+                    const index = this.waiting.indexOf(entry);
+                    if (index !== -1) {
+                        this.waiting.splice(index, 1);
+                        reject(new DownloadCancelledError(url));
+                    }
+                };
+                signal.addEventListener('abort', entry.onAbort, { once: true });
+            }
+
+            this.waiting.push(entry);
+            this.pump();
+        });
+    }
+
+    /**
+     * Starts as many waiting downloads as the limits allow
+     */
+    private pump(): void {
+        const settings = this.getSettings();
+        const minInterval = settings.hostRequestsPerSecond > 0 ? 1000 / settings.hostRequestsPerSecond : 0;
+        const now = Date.now();
+        let nextWake = Infinity;
+
+        for (let i = 0; i < this.waiting.length && this.active < settings.maxConcurrentDownloads;) {
+            const entry = this.waiting[i];
+
+            if ((this.activePerHost.get(entry.host) || 0) >= settings.maxConcurrentPerHost) {
+                i++;
+                continue;
+            }
+
+            const wait = (this.lastStartPerHost.get(entry.host) || 0) + minInterval - now;
+            if (wait > 0) {
+                // Host is rate limited, check again once its interval has passed
+                nextWake = Math.min(nextWake, wait);
+                i++;
+                continue;
+            }
+
+            this.waiting.splice(i, 1);
+            this.execute(entry);
+        }
+
+        if (nextWake !== Infinity && this.wakeTimer === null) {
+            this.wakeTimer = window.setTimeout(() => {
+                this.wakeTimer = null;
+                this.pump();
+            }, nextWake);
+        }
+    }
+
+    /**
+     * Runs a download in a slot
+     * @param entry The download to run
+     */
+    private async execute(entry: QueuedDownload): Promise<void> {
+        const settings = this.getSettings();
+        this.active++;
+        this.activePerHost.set(entry.host, (this.activePerHost.get(entry.host) || 0) + 1);
+        this.lastStartPerHost.set(entry.host, Date.now());
+
+        try {
+            const rule = findDomainRule(settings.domainRules, entry.url);
+            const image = await downloadImage(entry.url, this.getTransport(), {
+                headers: buildRequestHeaders(entry.url, rule),
+                timeout: rule && rule.timeout > 0 ? rule.timeout : settings.downloadTimeout,
+                retries: rule && rule.retries > 0 ? rule.retries : settings.maxDownloadRetries,
+                maxBytes: settings.maxDownloadSizeMB * 1024 * 1024,
+                signal: entry.signal
+            });
+
+            this.bytesDownloaded += image.data.byteLength;
+            entry.resolve(image);
+        } catch (error) {
+            if (entry.signal && entry.signal.aborted) {
+                entry.reject(new DownloadCancelledError(entry.url));
+            } else {
+                entry.reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        } finally {
+            // The signal is shared by a whole run, so don't leave a listener behind for every download
+            if (entry.signal && entry.onAbort) {
+                entry.signal.removeEventListener('abort', entry.onAbort);
+            }
+            this.active--;
+            this.activePerHost.set(entry.host, (this.activePerHost.get(entry.host) || 1) - 1);
+            this.pump();
+        }
+    }
+}
+
+/**
+ * Gets the host of a URL, used as the key for per-host limits
+ * @param url The URL
+ * @returns The host, or the URL itself if it can't be parsed
+ */
+function getHost(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch (error) {
+        log.debug(`Could not parse host of ${url}`);
+        return url;
+    }
+}
@@ -0,0 +1,193 @@
+import { DownloadError, ImageSkippedError } from './utils';
+
+/**
+ * What went wrong with a download
+ */
+export type FailureKind = 'http' | 'timeout' | 'network' | 'invalid' | 'skipped';
+
+/**
+ * A URL that could not be downloaded
+ */
+export interface FailureRecord {
+    url: string;
+    // Notes containing the URL
+    notes: string[];
+    // HTTP status of the last attempt, if the server answered
+    status?: number;
+    kind: FailureKind;
+    // Why a skipped image was skipped, e.g. "too large"
+    reason?: string;
+    message: string;
+    // Number of failed runs
+    attempts: number;
+    // ISO timestamps
+    lastAttempt: string;
+    nextRetry: string;
+    // 404, 410 and skipped images are not retried automatically
+    permanent: boolean;
+    // Ignored by the user: never retried automatically
+    ignored: boolean;
+}
+
+/**
+ * Serialized form of the registry, as stored in the plugin data
+ */
+export interface FailureRegistryData {
+    failures: Record<string, FailureRecord>;
+}
+
+// Backoff between automatic retries: 1 minute, 4 minutes, 16 minutes, ... up to a day
+const BASE_RETRY_DELAY = 60 * 1000;
+const MAX_RETRY_DELAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Remembers failed downloads so they aren't retried on every change to a note
+ */
+export class FailureRegistry {
+    private failures: Map<string, FailureRecord> = new Map();
+
+    /**
+     * @param data Previously saved registry data, if any
+     * @param onChange Called whenever the registry changes, to persist it
+     */
+    constructor(data: FailureRegistryData | undefined, private onChange: () => void) {
+        if (data && data.failures) {
+            for (const url of Object.keys(data.failures)) {
+                this.failures.set(url, data.failures[url]);
+            }
+        }
+    }
+
+    /**
+     * Gets all recorded failures
+     * @returns The failures, most recent first
+     */
+    getAll(): FailureRecord[] {
+        return Array.from(this.failures.values())
+            .sort((a, b) => b.lastAttempt.localeCompare(a.lastAttempt));
+    }
+
+    /**
+     * Gets the failure recorded for a URL
+     * @param url The image URL
+     * @returns The failure, or undefined if the URL hasn't failed
+     */
+    get(url: string): FailureRecord | undefined {
+        return this.failures.get(url);
+    }
+
+    /**
+     * Checks whether a URL should be left alone for now
+     * @param url The image URL
+     * @returns Why the URL is skipped, or null if it may be downloaded
+     */
+    getSkipReason(url: string): string | null {
+        const record = this.failures.get(url);
+        if (!record) {
+            return null;
+        }
+        if (record.ignored) {
+            return 'ignored after failing';
+        }
+        if (record.kind === 'skipped' && record.permanent) {
+            return `skipped (${record.reason})`;
+        }
+        if (record.permanent) {
+            return `permanently failed (HTTP ${record.status})`;
+        }
+        if (Date.parse(record.nextRetry) > Date.now()) {
+            return `failed, next retry ${record.nextRetry}`;
+        }
+        return null;
+    }
+
+    /**
+     * Records a failed download
+     * Skipped images are recorded too, and not retried automatically.
+     * @param url The image URL
+     * @param notePath The note containing the URL ('' if unknown)
+     * @param error The error the download failed with
+     */
+    recordFailure(url: string, notePath: string, error: Error): void {
+        const existing = this.failures.get(url);
+        const attempts = existing ? existing.attempts + 1 : 1;
+        const downloadError = error instanceof DownloadError ? error : null;
+        const skipped = error instanceof ImageSkippedError ? error : null;
+
+        const backoff = Math.min(BASE_RETRY_DELAY * Math.pow(4, attempts - 1), MAX_RETRY_DELAY);
+        const retryAfter = downloadError && downloadError.retryAfter ? downloadError.retryAfter : 0;
+        const now = Date.now();
+
+        const notes = existing ? existing.notes.slice() : [];
+        if (notePath && !notes.includes(notePath)) {
+            notes.push(notePath);
+        }
+
+        this.failures.set(url, {
+            url,
+            notes,
+            status: downloadError ? downloadError.status : undefined,
+            kind: downloadError ? downloadError.kind : skipped ? 'skipped' : 'invalid',
+            reason: skipped ? skipped.reason : undefined,
+            message: error.message,
+            attempts,
+            lastAttempt: new Date(now).toISOString(),
+            nextRetry: new Date(now + Math.max(backoff, retryAfter)).toISOString(),
+            permanent: downloadError ? downloadError.permanent : skipped !== null,
+            ignored: existing ? existing.ignored : false
+        });
+        this.onChange();
+    }
+
+    /**
+     * Forgets a URL, e.g. after it was downloaded successfully
+     * @param url The image URL
+     */
+    remove(url: string): void {
+        if (this.failures.delete(url)) {
+            this.onChange();
+        }
+    }
+
+    /**
+     * Makes failed URLs eligible for download right away
+     * Permanent failures are included; ignored URLs are not.
+     * @param urls The URLs to reset
+     */
+    allowRetry(urls: string[]): void {
+        const now = new Date().toISOString();
+        for (const url of urls) {
+            const record = this.failures.get(url);
+            if (record && !record.ignored) {
+                record.nextRetry = now;
+                record.permanent = false;
+            }
+        }
+        this.onChange();
+    }
+
+    /**
+     * Marks a URL as ignored or not ignored
+     * @param url The image URL
+     * @param ignored Whether the URL should be ignored
+     */
+    setIgnored(url: string, ignored: boolean): void {
+        const record = this.failures.get(url);
+        if (record && record.ignored !== ignored) {
+            record.ignored = ignored;
+            this.onChange();
+        }
+    }
+
+    /**
+     * Serializes the registry for the plugin data
+     * @returns The registry data
+     */
+    toJSON(): FailureRegistryData {
+        const failures: Record<string, FailureRecord> = {};
+        this.failures.forEach((record, url) => {
+            failures[url] = record;
+        });
+        return { failures };
+    }
+}
@@ -0,0 +1,117 @@
+import { App, Modal, Setting } from 'obsidian';
+import { FailureRecord, FailureRegistry } from './failedDownloads';
+
+/**
+ * Actions the failed downloads list can trigger
+ */
+export interface FailedDownloadsActions {
+    // Retries the given URLs now
+    retry: (urls: string[]) => Promise<void>;
+    // Replaces a URL in the notes that contain it, then downloads the new URL
+    editUrl: (record: FailureRecord, newUrl: string) => Promise<void>;
+}
+
+/**
+ * Lists failed downloads, with buttons to retry, ignore or edit each of them
+ */
+export class FailedDownloadsModal extends Modal {
+    constructor(app: App, private registry: FailureRegistry, private actions: FailedDownloadsActions) {
+        super(app);
+    }
+
+    onOpen() {
+        this.titleEl.setText('Failed image downloads');
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Draws the list of failures
+     */
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('save-images-offline-failures');
+
+        const records = this.registry.getAll();
+        if (records.length === 0) {
+            contentEl.createEl('p', { text: 'No failed downloads.' });
+            return;
+        }
+
+        new Setting(contentEl)
+            .setDesc(`${records.length} images could not be downloaded.`)
+            .addButton(button => button
+                .setButtonText('Retry all')
+                .setCta()
+                .onClick(async () => {
+                    this.close();
+                    await this.actions.retry(records.filter(record => !record.ignored).map(record => record.url));
+                }));
+
+        const listEl = contentEl.createDiv('save-images-offline-failures-list');
+        for (const record of records) {
+            this.renderRecord(listEl, record);
+        }
+    }
+
+    /**
+     * Draws one failure
+     * @param containerEl The list element
+     * @param record The failure
+     */
+    private renderRecord(containerEl: HTMLElement, record: FailureRecord): void {
+        const reason = record.status ? `HTTP ${record.status}` :
+            record.reason ? `skipped: ${record.reason}` :
+            record.kind;
+        const state = record.ignored ? 'ignored' :
+            record.permanent ? 'not retried automatically' :
+            `next retry ${new Date(record.nextRetry).toLocaleString()}`;
+
+        const setting = new Setting(containerEl)
+            .setName(record.url)
+            .setDesc(`${reason} · ${record.attempts} attempts · ${state} · ${record.notes.join(', ') || 'no note'}`);
+        setting.settingEl.addClass('save-images-offline-failures-row');
+        if (record.ignored) {
+            setting.settingEl.addClass('is-ignored');
+        }
+
+        let newUrl = record.url;
+        const editEl = containerEl.createDiv('save-images-offline-failures-edit');
+        editEl.hide();
+        new Setting(editEl)
+            .addText(text => text
+                .setValue(record.url)
+                .onChange(value => newUrl = value.trim()))
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(async () => {
+                    if (newUrl && newUrl !== record.url) {
+                        this.close();
+                        await this.actions.editUrl(record, newUrl);
+                    }
+                }));
+
+        setting
+            .addButton(button => button
+                .setButtonText('Retry')
+                .setDisabled(record.ignored)
+                .onClick(async () => {
+                    this.close();
+                    await this.actions.retry([record.url]);
+                }))
+            .addButton(button => button
+                .setButtonText(record.ignored ? 'Unignore' : 'Ignore')
+                .onClick(() => {
+                    this.registry.setIgnored(record.url, !record.ignored);
+                    this.render();
+                }))
+            .addButton(button => button
+                .setButtonText('Edit')
+                .onClick(() => editEl.toggle(!editEl.isShown())));
+    }
+}
@@ -0,0 +1,105 @@
+import { TFile } from 'obsidian';
+import { renderTemplate, formatDateToken, getDomainToken } from './templates';
+import { sanitizeFilename } from './utils';
+import { log } from './logger';
+
+/**
+ * Values available to the filename template
+ */
+export interface FilenameContext {
+    imageUrl: string;
+    // MD5 hash of the image data
+    hash: string;
+    // Extension of the detected image type, or of the format it was converted to
+    extension: string;
+    altText: string;
+    file: TFile | null;
+    index: number;
+}
+
+/**
+ * Generates the filename for a downloaded image from the filename template
+ * Supported tokens: {{hash}}, {{hash:N}}, {{md5}}, {{urlname}}, {{alt}}, {{notename}},
+ * {{domain}}, {{index}}, {{date}}, {{date:FORMAT}} and {{ext}}.
+ * {{ext}} is the extension of the saved image's format as detected from its data, or of the
+ * format it was converted to, not the extension in the URL. The extension always ends the
+ * filename: {{ext}} or .{{ext}} as the final token is where it goes anyway, and an {{ext}}
+ * anywhere else is just text in the name, with the extension still appended.
+ * @param template The filename template
+ * @param context Values for the template tokens
+ * @param maxLength Maximum length of the filename, including the extension
+ * @returns The sanitized filename
+ */
+export function generateFilename(template: string, context: FilenameContext, maxLength: number): string {
+    const hash = context.hash;
+
+    // The extension is added after sanitizing and truncating, so it survives both
+    const extSuffix = `.${context.extension}`;
+    const rendered = renderTemplate(template.replace(/\.?\{\{\s*ext\s*\}\}\s*$/i, ''), {
+        'hash': (length) => hash.substring(0, Number(length) || 8),
+        'md5': () => hash,
+        'urlname': () => getUrlName(context.imageUrl),
+        'alt': () => context.altText,
+        'notename': () => context.file ? context.file.basename : '',
+        'domain': () => getDomainToken(context.imageUrl),
+        'index': () => String(context.index),
+        'date': formatDateToken,
+        'ext': () => context.extension
+    });
+
+    let baseName = sanitizeFilename(rendered, Math.max(1, maxLength - extSuffix.length));
+    if (!baseName) {
+        // Nothing usable survived sanitization, fall back to the content hash
+        log.debug(`Filename template "${template}" produced an empty name, using hash`);
+        baseName = hash.substring(0, Math.max(1, maxLength - extSuffix.length));
+    }
+
+    return `${baseName}${extSuffix}`;
+}
+
+/**
+ * Extracts a meaningful name from an image URL
+ * Path segments that look like hashes or numeric IDs are skipped; the hostname is used if
+ * nothing else is found. Data URIs are named "image".
+ * @param imageUrl The image URL
+ * @returns The name, without extension
+ */
+export function getUrlName(imageUrl: string): string {
+    if (/^data:/i.test(imageUrl)) {
+        // Images extracted from data URIs have no name of their own
+        return 'image';
+    }
+
+    try {
+        const urlObj = new URL(imageUrl);
+
+        // Use the last segment that's not just a hash or ID
+        const pathSegments = urlObj.pathname.split('/').filter(segment => segment.length > 0);
+        for (let i = pathSegments.length - 1; i >= 0; i--) {
+            const segment = safeDecode(pathSegments[i]);
+            if (!/^[0-9a-f]{8,}$/i.test(segment) && !/^\d+$/.test(segment)) {
+                // Remove extension if present
+                return segment.replace(/\.[^.]+$/, '');
+            }
+        }
+
+        // If we couldn't find a meaningful name, use the hostname
+        return urlObj.hostname.replace(/\./g, '-');
+    } catch (error) {
+        console.error('Error extracting meaningful name from URL:', error);
+        return '';
+    }
+}
+
+/**
+ * Decodes a percent-encoded URL segment, returning it unchanged if it is malformed
+ * @param segment The URL segment
+ * @returns The decoded segment
+ */
+function safeDecode(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch (error) {
+        return segment;
+    }
+}
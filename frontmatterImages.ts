@@ -0,0 +1,168 @@
+import { App, TFile, parseYaml } from 'obsidian';
+import { ImageProcessorContext, ProcessingStats, localizeImage } from './imageProcessor';
+import { generatePropertyLink } from './links';
+import { SaveImagesOfflineSettings } from './settings';
+import { log } from './logger';
+
+/**
+ * Gets the frontmatter keys whose image URLs are saved
+ * @param settings The plugin settings
+ * @returns The keys, without duplicates
+ */
+export function getFrontmatterImageKeys(settings: SaveImagesOfflineSettings): string[] {
+    const keys = settings.frontmatterImageKeys.split(',').map(key => key.trim()).filter(key => key.length > 0);
+    return keys.filter((key, i) => keys.indexOf(key) === i);
+}
+
+/**
+ * Downloads the remote images of a note's frontmatter image keys
+ * The frontmatter is read from the content rather than the metadata cache, which may not have
+ * caught up with a note that was just changed. Values may be single URLs or lists of URLs.
+ * @param file The note
+ * @param content The content of the note
+ * @param ctx The plugin services used for processing
+ * @param stats Stats object to update
+ * @param signal Cancels the downloads that haven't finished yet
+ * @returns The property value to write for each localized URL
+ */
+export async function localizeFrontmatterImages(
+    file: TFile,
+    content: string,
+    ctx: ImageProcessorContext,
+    stats: ProcessingStats,
+    signal?: AbortSignal
+): Promise<Map<string, string>> {
+    const links = new Map<string, string>();
+    const frontmatter = readFrontmatter(content, file);
+    if (!frontmatter) {
+        return links;
+    }
+
+    const entries: { key: string, url: string }[] = [];
+    for (const key of getFrontmatterImageKeys(ctx.settings)) {
+        for (const value of toList(frontmatter[key])) {
+            if (isRemoteUrl(value) && !entries.some(entry => entry.url === value)) {
+                entries.push({ key, url: value });
+            }
+        }
+    }
+
+    let index = 0;
+    await Promise.all(entries.map(async ({ key, url }) => {
+        const localized = await localizeImage(url, ctx, { file, altText: key, index: ++index }, stats, signal);
+        if (localized.action === 'replace') {
+            // Properties can't hold a source comment, so comment mode keeps the source in the image index
+            ctx.provenance.record({ localPath: localized.localPath, url, notePath: file.path });
+            links.set(url, generatePropertyLink(ctx.app, localized.localPath, file.path, ctx.settings.linkFormat));
+        }
+    }));
+
+    return links;
+}
+
+/**
+ * Gets the local image links of a note's frontmatter image keys
+ * @param file The note
+ * @param content The content of the note
+ * @param keys The frontmatter image keys
+ * @returns The property values that aren't URLs, e.g. "[[cover.png]]", without duplicates
+ */
+export function getFrontmatterImageLinks(file: TFile, content: string, keys: string[]): string[] {
+    return getFrontmatterImageValues(file, content, keys).filter(value => !/^[a-z][a-z0-9+.-]*:/i.test(value));
+}
+
+/**
+ * Gets the remote image URLs of a note's frontmatter image keys
+ * @param file The note
+ * @param content The content of the note
+ * @param keys The frontmatter image keys
+ * @returns The http(s) URLs, without duplicates
+ */
+export function getFrontmatterImageUrls(file: TFile, content: string, keys: string[]): string[] {
+    return getFrontmatterImageValues(file, content, keys).filter(isRemoteUrl);
+}
+
+/**
+ * Replaces frontmatter image values, e.g. the URLs of localized images with links to the saved images
+ * Uses processFrontMatter, so the rest of the frontmatter keeps its formatting.
+ * @param app The Obsidian app
+ * @param file The note
+ * @param keys The frontmatter image keys
+ * @param links The property value to write for each current value
+ */
+export async function rewriteFrontmatterImages(
+    app: App,
+    file: TFile,
+    keys: string[],
+    links: Map<string, string>
+): Promise<void> {
+    if (links.size === 0) {
+        return;
+    }
+
+    await app.fileManager.processFrontMatter(file, frontmatter => {
+        for (const key of keys) {
+            const value = frontmatter[key];
+            if (typeof value === 'string' && links.has(value.trim())) {
+                frontmatter[key] = links.get(value.trim());
+            } else if (Array.isArray(value)) {
+                frontmatter[key] = value.map(item =>
+                    typeof item === 'string' && links.has(item.trim()) ? links.get(item.trim()) : item);
+            }
+        }
+    });
+    log.debug(`Rewrote ${links.size} frontmatter images in ${file.path}`);
+}
+
+/**
+ * Parses the frontmatter of a note
+ * @param content The content of the note
+ * @param file The note, for logging
+ * @returns The frontmatter, or null if the note has none or it is invalid
+ */
+function readFrontmatter(content: string, file: TFile): Record<string, unknown> | null {
+    const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n|$)/.exec(content);
+    if (!match) {
+        return null;
+    }
+    try {
+        const frontmatter = parseYaml(match[1]);
+        return frontmatter && typeof frontmatter === 'object' ? frontmatter : null;
+    } catch (error) {
+        log.warn(`Invalid frontmatter in ${file.path}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Gets the values of a note's frontmatter image keys
+ * @param file The note
+ * @param content The content of the note
+ * @param keys The frontmatter image keys
+ * @returns The non-empty string values, without duplicates
+ */
+function getFrontmatterImageValues(file: TFile, content: string, keys: string[]): string[] {
+    const frontmatter = readFrontmatter(content, file);
+    const values: string[] = [];
+    if (!frontmatter) {
+        return values;
+    }
+
+    for (const key of keys) {
+        for (const value of toList(frontmatter[key])) {
+            if (value && values.indexOf(value) === -1) {
+                values.push(value);
+            }
+        }
+    }
+    return values;
+}
+
+function toList(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : [value];
+    return values.filter((item): item is string => typeof item === 'string').map(item => item.trim());
+}
+
+function isRemoteUrl(value: string): boolean {
+    return /^https?:\/\/\S+$/i.test(value);
+}
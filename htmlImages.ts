@@ -0,0 +1,215 @@
+import { HtmlTag, PictureImage, getHtmlAttribute } from './markdownScanner';
+
+/**
+ * A candidate of a srcset attribute, e.g. "image-800.jpg 800w"
+ */
+export interface SrcsetCandidate {
+    url: string;
+    // Width descriptor in pixels, 0 if the candidate has none
+    width: number;
+    // Pixel density descriptor, 1 if the candidate has none
+    density: number;
+}
+
+/**
+ * Parses a srcset attribute
+ * @param srcset The attribute value
+ * @returns The candidates, in the order they are listed
+ */
+export function parseSrcset(srcset: string): SrcsetCandidate[] {
+    const candidates: SrcsetCandidate[] = [];
+    let i = 0;
+
+    while (i < srcset.length) {
+        // Skip separators
+        while (i < srcset.length && /[\s,]/.test(srcset[i])) {
+            i++;
+        }
+        const urlStart = i;
+        while (i < srcset.length && !/\s/.test(srcset[i])) {
+            i++;
+        }
+        let url = srcset.slice(urlStart, i);
+        if (!url) {
+            break;
+        }
+
+        // A URL ending in a comma has no descriptors
+        let descriptors = '';
+        if (url.endsWith(',')) {
+            url = url.replace(/,+$/, '');
+        } else {
+            const descriptorStart = i;
+            while (i < srcset.length && srcset[i] !== ',') {
+                i++;
+            }
+            descriptors = srcset.slice(descriptorStart, i).trim();
+        }
+
+        const candidate: SrcsetCandidate = { url, width: 0, density: 1 };
+        for (const descriptor of descriptors.split(/\s+/)) {
+            const value = parseFloat(descriptor);
+            if (/^\d+w$/.test(descriptor)) {
+                candidate.width = value;
+            } else if (/^\d*\.?\d+x$/.test(descriptor) && value > 0) {
+                candidate.density = value;
+            }
+        }
+        candidates.push(candidate);
+    }
+
+    return candidates;
+}
+
+/**
+ * Picks the largest candidate of a srcset
+ * Width descriptors are preferred over densities, as they say more about the image itself.
+ * @param candidates The candidates
+ * @returns The URL of the best candidate, or null if there are none
+ */
+export function pickBestCandidate(candidates: SrcsetCandidate[]): string | null {
+    let best: SrcsetCandidate | null = null;
+    for (const candidate of candidates) {
+        if (!best ||
+            candidate.width > best.width ||
+            (candidate.width === best.width && candidate.density > best.density)) {
+            best = candidate;
+        }
+    }
+    return best ? best.url : null;
+}
+
+/**
+ * Gets the URL of the image to download for an <img> tag
+ * @param tag The tag
+ * @returns The best srcset candidate, else the src, or null if the tag has neither
+ */
+export function getImageTagUrl(tag: HtmlTag): string | null {
+    const best = pickBestCandidate(getRemoteCandidates(tag));
+    if (best) {
+        return best;
+    }
+    const src = getHtmlAttribute(tag, 'src');
+    return src ? decodeEntities(src.value.trim()) : null;
+}
+
+/**
+ * Gets the URL of the image to download for a <picture> element
+ * Like a browser at a high resolution: the first <source> without a media condition wins,
+ * or the first <source> at all when every source has one, and the <img> is the fallback.
+ * @param picture The element
+ * @returns The URL, or null if the element has none
+ */
+export function getPictureUrl(picture: PictureImage): string | null {
+    const unconditional = picture.sources.filter(source => !getHtmlAttribute(source, 'media'));
+    const candidates = unconditional.length > 0 ? unconditional : picture.sources;
+    for (const source of candidates) {
+        const best = pickBestCandidate(getRemoteCandidates(source));
+        if (best) {
+            return best;
+        }
+    }
+    return getImageTagUrl(picture.image);
+}
+
+/**
+ * Rewrites an <img> tag to show a saved image
+ * Only src changes; srcset and sizes are dropped because they point at the remote images.
+ * Every other attribute is kept as written.
+ * @param tag The tag
+ * @param src The new src
+ * @returns The rewritten tag
+ */
+export function rewriteImageTag(tag: HtmlTag, src: string): string {
+    const newSrc = `src="${escapeAttribute(src)}"`;
+    let result = '';
+    let position = 0;
+    let srcWritten = false;
+
+    for (const attribute of tag.attributes) {
+        if (attribute.name !== 'src' && attribute.name !== 'srcset' && attribute.name !== 'sizes') {
+            continue;
+        }
+        result += tag.raw.slice(position, attribute.start);
+        if (attribute.name === 'src' && !srcWritten) {
+            result += newSrc;
+            srcWritten = true;
+        } else {
+            result = result.replace(/\s+$/, '');
+        }
+        position = attribute.end;
+    }
+    result += tag.raw.slice(position);
+
+    if (!srcWritten) {
+        result = `${result.slice(0, 4)} ${newSrc}${result.slice(4)}`;
+    }
+    return result;
+}
+
+/**
+ * Gets the Obsidian size suffix for an <img> tag, e.g. "300x200" or "300"
+ * @param tag The tag
+ * @returns The suffix, or '' if the tag has no pixel width
+ */
+export function getImageSize(tag: HtmlTag): string {
+    const width = parsePixels(getHtmlAttribute(tag, 'width'));
+    if (!width) {
+        return '';
+    }
+    const height = parsePixels(getHtmlAttribute(tag, 'height'));
+    return height ? `${width}x${height}` : `${width}`;
+}
+
+/**
+ * Gets the local image shown by an <img> tag
+ * @param tag The tag
+ * @returns The src, decoded, or null if the tag has none or it is a URL
+ */
+export function getLocalImageSource(tag: HtmlTag): string | null {
+    const src = getHtmlAttribute(tag, 'src');
+    const value = src ? decodeEntities(src.value.trim()) : '';
+    if (!value || /^[a-z][a-z0-9+.-]*:/i.test(value)) {
+        return null;
+    }
+    try {
+        return decodeURIComponent(value);
+    } catch (error) {
+        return value;
+    }
+}
+
+/**
+ * Decodes the HTML entities that commonly appear in attribute URLs
+ * @param value The attribute value
+ * @returns The decoded value
+ */
+export function decodeEntities(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, '\'')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Gets the srcset candidates of a tag that can be downloaded
+ * @param tag An <img> or <source> tag
+ * @returns The http(s) candidates
+ */
+function getRemoteCandidates(tag: HtmlTag): SrcsetCandidate[] {
+    const srcset = getHtmlAttribute(tag, 'srcset');
+    return srcset ?
+        parseSrcset(decodeEntities(srcset.value)).filter(candidate => /^https?:\/\//i.test(candidate.url)) :
+        [];
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function parsePixels(attribute: { value: string } | undefined): number {
+    const match = attribute ? /^\s*(\d+)(?:px)?\s*$/i.exec(attribute.value) : null;
+    return match ? parseInt(match[1], 10) : 0;
+}
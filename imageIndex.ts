@@ -0,0 +1,166 @@
+/**
+ * A downloaded image known to the index
+ */
+export interface ImageIndexEntry {
+    // Vault path of the saved image
+    localPath: string;
+    // MD5 hash of the saved image data
+    hash: string;
+    // ISO timestamp of the first download
+    firstSeen: string;
+}
+
+/**
+ * Serialized form of the index, as stored in the plugin data
+ */
+export interface ImageIndexData {
+    // Source URL -> saved image
+    urls: Record<string, ImageIndexEntry>;
+}
+
+/**
+ * Vault-wide index of downloaded images, keyed by source URL and content hash
+ * Lets already-downloaded URLs skip the network and identical images served from
+ * different URLs resolve to the same file.
+ */
+export class ImageIndex {
+    private urls: Map<string, ImageIndexEntry> = new Map();
+    private hashes: Map<string, string> = new Map();
+
+    /**
+     * @param data Previously saved index data, if any
+     * @param onChange Called whenever the index changes, to persist it
+     */
+    constructor(data: ImageIndexData | undefined, private onChange: () => void) {
+        if (data && data.urls) {
+            for (const url of Object.keys(data.urls)) {
+                this.setEntry(url, data.urls[url]);
+            }
+        }
+    }
+
+    /**
+     * Gets the saved image for a source URL
+     * @param url The source URL
+     * @returns The index entry, or undefined if the URL is unknown
+     */
+    getByUrl(url: string): ImageIndexEntry | undefined {
+        return this.urls.get(url);
+    }
+
+    /**
+     * Gets the path of a saved image with the given content hash
+     * @param hash MD5 hash of the image data
+     * @returns The vault path, or undefined if no such image is known
+     */
+    getPathByHash(hash: string): string | undefined {
+        return this.hashes.get(hash);
+    }
+
+    /**
+     * Gets the source URLs of a saved image
+     * @param localPath Vault path of the saved image
+     * @returns The URLs that resolved to this image, oldest first
+     */
+    getUrlsByPath(localPath: string): string[] {
+        const matches: { url: string, firstSeen: string }[] = [];
+        this.urls.forEach((entry, url) => {
+            if (entry.localPath === localPath) {
+                matches.push({ url, firstSeen: entry.firstSeen });
+            }
+        });
+        return matches
+            .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen))
+            .map(match => match.url);
+    }
+
+    /**
+     * Gets the paths of all images in the index
+     * @returns The vault paths, without duplicates
+     */
+    getLocalPaths(): string[] {
+        const paths = new Set<string>();
+        this.urls.forEach(entry => paths.add(entry.localPath));
+        return Array.from(paths);
+    }
+
+    /**
+     * Records a downloaded image
+     * @param url The source URL
+     * @param localPath Vault path of the saved image
+     * @param hash MD5 hash of the saved image data
+     */
+    add(url: string, localPath: string, hash: string): void {
+        const existing = this.urls.get(url);
+        if (existing && existing.localPath === localPath && existing.hash === hash) {
+            return;
+        }
+
+        this.setEntry(url, {
+            localPath,
+            hash,
+            firstSeen: existing ? existing.firstSeen : new Date().toISOString()
+        });
+        this.onChange();
+    }
+
+    /**
+     * Forgets every entry pointing at a vault path
+     * @param localPath The vault path that no longer holds the image
+     */
+    removePath(localPath: string): void {
+        let changed = false;
+        this.urls.forEach((entry, url) => {
+            if (entry.localPath === localPath) {
+                this.urls.delete(url);
+                changed = true;
+            }
+        });
+        this.hashes.forEach((path, hash) => {
+            if (path === localPath) {
+                this.hashes.delete(hash);
+            }
+        });
+
+        if (changed) {
+            this.onChange();
+        }
+    }
+
+    /**
+     * Updates entries after an image was moved or renamed
+     * @param oldPath The previous vault path
+     * @param newPath The new vault path
+     */
+    renamePath(oldPath: string, newPath: string): void {
+        let changed = false;
+        this.urls.forEach(entry => {
+            if (entry.localPath === oldPath) {
+                entry.localPath = newPath;
+                this.hashes.set(entry.hash, newPath);
+                changed = true;
+            }
+        });
+
+        if (changed) {
+            this.onChange();
+        }
+    }
+
+    /**
+     * Serializes the index for the plugin data
+     * @returns The index data
+     */
+    toJSON(): ImageIndexData {
+        const urls: Record<string, ImageIndexEntry> = {};
+        this.urls.forEach((entry, url) => {
+            urls[url] = entry;
+        });
+        return { urls };
+    }
+
+    private setEntry(url: string, entry: ImageIndexEntry): void {
+        this.urls.set(url, entry);
+        this.hashes.set(entry.hash, entry.localPath);
+    }
+}
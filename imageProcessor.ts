@@ -1,374 +1,756 @@
-import { TFile, Vault } from 'obsidian';
-import * as path from 'path';
+import { App, TFile, Vault, normalizePath } from 'obsidian';
 import {
-    IMAGE_URL_REGEX,
-    HTML_IMG_REGEX,
-    downloadImage,
-    calculateMD5,
-    sanitizeFilename,
-    getFileExtension,
     ensureFolderExists,
-    convertPngToJpeg,
-    isIgnoredDomain,
-    isLikelyImageUrl
+    calculateMD5,
+    arrayBuffersEqual,
+    decodeDataUri,
+    describeDataUri,
+    isLikelyImageUrl,
+    formatBytes,
+    ImageSkippedError
 } from './utils';
-import { SaveImagesOfflineSettings } from './settings';
+import { SaveImagesOfflineSettings, CollisionPolicy } from './settings';
+import { generateImageLink, generateImagePath } from './links';
+import { resolveImageFolder } from './attachmentPaths';
+import { generateFilename } from './filenames';
+import { ImageType, detectImageType, readImageDimensions } from './imageTypes';
+import { convertImage } from './conversion';
+import { downscaleImage } from './resize';
+import { stripMetadata } from './metadata';
+import { sanitizeSvg } from './svgSanitizer';
+import { evaluateUrlFilters } from './urlFilters';
+import { ImageEmbed, findImageEmbeds, getHtmlAttribute } from './markdownScanner';
+import { getImageSize, getImageTagUrl, getPictureUrl, rewriteImageTag } from './htmlImages';
+import { ImageIndex } from './imageIndex';
+import { ProvenanceRecorder, formatSourceComment } from './provenance';
+import { DownloadQueue, DownloadCancelledError } from './downloadQueue';
+import { FailureRegistry } from './failedDownloads';
 import { log } from './logger';
 
+/**
+ * What the image processor needs from the plugin
+ */
+export interface ImageProcessorContext {
+    app: App;
+    settings: SaveImagesOfflineSettings;
+    imageIndex: ImageIndex;
+    provenance: ProvenanceRecorder;
+    downloadQueue: DownloadQueue;
+    failures: FailureRegistry;
+}
+
+/**
+ * Counts of what happened to the images found while processing
+ */
+export interface ProcessingStats {
+    total: number;
+    downloaded: number;
+    failed: number;
+    skipped: number;
+    // Images downscaled to the size limits
+    resized: number;
+    // SVGs with scripts or external references removed
+    sanitized: number;
+    // Images saved from data URIs, also counted as downloaded
+    extracted: number;
+    // Size of newly downloaded images as downloaded, and as saved after processing
+    bytesDownloaded: number;
+    bytesSaved: number;
+    // Size of the resized images before and after downscaling
+    bytesBeforeResize: number;
+    bytesAfterResize: number;
+    // Number of skipped images per reason, e.g. "too small"
+    skipReasons: Record<string, number>;
+}
+
+/**
+ * Creates an empty stats object
+ * @returns Stats with every count at zero
+ */
+export function createStats(): ProcessingStats {
+    return {
+        total: 0,
+        downloaded: 0,
+        failed: 0,
+        skipped: 0,
+        resized: 0,
+        sanitized: 0,
+        extracted: 0,
+        bytesDownloaded: 0,
+        bytesSaved: 0,
+        bytesBeforeResize: 0,
+        bytesAfterResize: 0,
+        skipReasons: {}
+    };
+}
+
+/**
+ * Adds the counts of one stats object to another
+ * @param totals The stats to add to
+ * @param stats The stats to add
+ */
+export function addStats(totals: ProcessingStats, stats: ProcessingStats): void {
+    totals.total += stats.total;
+    totals.downloaded += stats.downloaded;
+    totals.failed += stats.failed;
+    totals.skipped += stats.skipped;
+    totals.resized += stats.resized;
+    totals.sanitized += stats.sanitized;
+    totals.extracted += stats.extracted;
+    totals.bytesDownloaded += stats.bytesDownloaded;
+    totals.bytesSaved += stats.bytesSaved;
+    totals.bytesBeforeResize += stats.bytesBeforeResize;
+    totals.bytesAfterResize += stats.bytesAfterResize;
+    for (const reason of Object.keys(stats.skipReasons)) {
+        totals.skipReasons[reason] = (totals.skipReasons[reason] || 0) + stats.skipReasons[reason];
+    }
+}
+
+/**
+ * Describes the skipped images
+ * @param stats The stats to describe
+ * @returns e.g. "3 (2 too small, 1 excluded by rule)"
+ */
+export function describeSkipped(stats: ProcessingStats): string {
+    const reasons = Object.keys(stats.skipReasons).map(reason => `${stats.skipReasons[reason]} ${reason}`);
+    return reasons.length > 0 ? `${stats.skipped} (${reasons.join(', ')})` : String(stats.skipped);
+}
+
+/**
+ * Counts a skipped image
+ * @param stats Stats object to update
+ * @param reason Why the image was skipped
+ */
+function countSkipped(stats: ProcessingStats, reason: string): void {
+    stats.skipped++;
+    stats.skipReasons[reason] = (stats.skipReasons[reason] || 0) + 1;
+}
+
+/**
+ * Counts a saved image
+ * @param stats Stats object to update
+ * @param details What happened to the image before it was saved
+ */
+function countSaved(stats: ProcessingStats, details: SaveDetails): void {
+    stats.bytesDownloaded += details.downloaded;
+    stats.bytesSaved += details.saved;
+    if (details.afterResize > 0) {
+        stats.resized++;
+        stats.bytesBeforeResize += details.beforeResize;
+        stats.bytesAfterResize += details.afterResize;
+    }
+    if (details.sanitized) {
+        stats.sanitized++;
+    }
+}
+
+/**
+ * Describes what processing did to the saved images
+ * @param stats The stats to describe
+ * @returns e.g. " Resized 2 images (8.1 MB → 1.2 MB). Sanitized 1 SVG.", or '' if nothing was changed
+ */
+export function describeProcessing(stats: ProcessingStats): string {
+    let description = '';
+    if (stats.extracted > 0) {
+        description += ` Extracted ${stats.extracted} embedded images.`;
+    }
+    if (stats.resized > 0) {
+        description += ` Resized ${stats.resized} images (${formatBytes(stats.bytesBeforeResize)} → ${formatBytes(stats.bytesAfterResize)}).`;
+    }
+    if (stats.sanitized > 0) {
+        description += ` Sanitized ${stats.sanitized} SVGs.`;
+    }
+    return description;
+}
+
+/**
+ * What to do with the link to an image after trying to localize it
+ */
+type Localization =
+    | { action: 'replace', localPath: string }
+    | { action: 'keep' }
+    | { action: 'remove' };
+
+/**
+ * What happened to a newly downloaded image before it was saved
+ */
+interface SaveDetails {
+    // Sizes as downloaded and as saved
+    downloaded: number;
+    saved: number;
+    // Sizes before and after downscaling, 0 if the image wasn't resized
+    beforeResize: number;
+    afterResize: number;
+    sanitized: boolean;
+}
+
+/**
+ * Where an image was found
+ */
+export interface ImageSource {
+    // The note containing the image, or null if unknown
+    file: TFile | null;
+    // Alt text of the image
+    altText: string;
+    // 1-based position of the image within the processed content
+    index: number;
+}
+
 /**
  * Processes a markdown file to find and download images
  * @param file The markdown file to process
- * @param vault The Obsidian vault
- * @param settings Plugin settings
- * @returns Object containing the updated content and stats about the processing
+ * @param ctx The plugin services used for processing
+ * @param signal Cancels the downloads that haven't finished yet
+ * @returns Object containing the original and updated content, whether any link changed and stats about the processing
  */
 export async function processMarkdownFile(
     file: TFile,
-    vault: Vault,
-    settings: SaveImagesOfflineSettings
+    ctx: ImageProcessorContext,
+    signal?: AbortSignal
 ): Promise<{
     content: string,
-    stats: {
-        total: number,
-        downloaded: number,
-        failed: number,
-        skipped: number
-    }
+    originalContent: string,
+    changed: boolean,
+    stats: ProcessingStats
 }> {
     // Read the file content
-    const content = await vault.read(file);
+    const originalContent = await ctx.app.vault.read(file);
 
     // Initialize stats
-    const stats = {
-        total: 0,
-        downloaded: 0,
-        failed: 0,
-        skipped: 0
-    };
+    const stats = createStats();
 
     // Process the content
-    const newContent = await processContent(content, file, vault, settings, stats);
+    const content = await processContent(originalContent, file, ctx, stats, signal);
 
-    return { content: newContent, stats };
+    // Links may have been removed without any image being downloaded
+    return { content, originalContent, changed: content !== originalContent, stats };
 }
 
 /**
  * Processes content to find and download images
  * @param content The markdown content to process
  * @param file The markdown file (for context)
- * @param vault The Obsidian vault
- * @param settings Plugin settings
+ * @param ctx The plugin services used for processing
  * @param stats Stats object to update
+ * @param signal Cancels the downloads that haven't finished yet; their links are left as they are
  * @returns The updated content with local image paths
  */
 export async function processContent(
     content: string,
     file: TFile | null,
-    vault: Vault,
-    settings: SaveImagesOfflineSettings,
-    stats: { total: number, downloaded: number, failed: number, skipped: number }
+    ctx: ImageProcessorContext,
+    stats: ProcessingStats,
+    signal?: AbortSignal
 ): Promise<string> {
-    // Determine the base folder for saving images
-    let basePath = '';
-    if (file) {
-        // Get the directory of the current file
-        basePath = file.path.substring(0, file.path.lastIndexOf('/') + 1);
-
-        // If imageFolder is specified, it's a subfolder within the note folder
-        if (settings.imageFolder) {
-            // Ensure we don't add trailing slash if imageFolder already has one
-            const folderName = settings.imageFolder.endsWith('/') ?
-                settings.imageFolder : settings.imageFolder;
-            basePath += folderName;
-        }
-    } else {
-        // Fallback to the global image folder setting if no file is provided
-        basePath = settings.imageFolder;
-    }
-
-    // Ensure the image folder exists
-    await ensureFolderExists(vault, basePath);
-
-    // Process markdown image syntax
-    let newContent = await replaceAsync(content, IMAGE_URL_REGEX, async (match, altText, imageUrl) => {
+    const { app, settings } = ctx;
+    const sourcePath = file ? file.path : '';
+    let imageIndex = 0;
+
+    const embeds = findImageEmbeds(content).filter(embed => getEmbedUrl(embed, settings.extractDataUris) !== null);
+    const replacements = await Promise.all(embeds.map(async embed => {
+        const original = content.slice(embed.start, embed.end);
+        const imageUrl = getEmbedUrl(embed, settings.extractDataUris) as string;
+        const inline = isDataUri(imageUrl);
         // Check if this URL is likely an image URL
-        if (!isLikelyImageUrl(imageUrl)) {
+        if (!inline && !isLikelyImageUrl(imageUrl)) {
             log.debug(`Skipping URL that doesn't appear to be an image: ${imageUrl}`);
-            return match; // Skip URLs that don't appear to be images
+            return original;
         }
 
-        stats.total++;
-
-        // Check if the URL is from an ignored domain
-        if (isIgnoredDomain(imageUrl, settings.ignoredDomains)) {
-            stats.skipped++;
-            return match;
+        const tag = embed.kind === 'html' ? embed : (embed.kind === 'picture' ? embed.image : null);
+        const altAttribute = tag ? getHtmlAttribute(tag, 'alt') : undefined;
+        const altText = embed.kind === 'markdown' || embed.kind === 'definition' ?
+            embed.altText :
+            (altAttribute ? altAttribute.value : '');
+
+        const source = { file, altText, index: ++imageIndex };
+        const localized = inline ?
+            await extractDataUri(imageUrl, ctx, source, stats) :
+            await localizeImage(imageUrl, ctx, source, stats, signal);
+        if (localized.action !== 'replace') {
+            // A definition can't be removed without breaking the references to it
+            return localized.action === 'remove' && embed.kind !== 'definition' ? '' : original;
         }
 
-        log.debug(`Processing image URL: ${imageUrl}`);
-        const result = await downloadAndSaveImage(imageUrl, vault, settings, basePath);
-
-        if (result.success && result.localPath) {
-            stats.downloaded++;
-            // Create the new markdown with the local image path
-            // If the image is saved in the note's folder, use a relative path
-            let imagePath = result.localPath;
-            if (file && result.localPath.startsWith(file.path.substring(0, file.path.lastIndexOf('/') + 1))) {
-                // Extract just the filename and subfolder if any
-                const notePath = file.path.substring(0, file.path.lastIndexOf('/') + 1);
-                imagePath = result.localPath.substring(notePath.length);
-
-                // Ensure there are no double slashes in the path
-                imagePath = imagePath.replace(/\/\//g, '/');
+        if (embed.kind === 'definition') {
+            // Only the destination is rewritten, so the references and the title stay as they are.
+            // A source comment would end the definition, so comment mode keeps the source in the image index.
+            if (!inline) {
+                ctx.provenance.record({ localPath: localized.localPath, url: imageUrl, notePath: sourcePath });
             }
-            return `![${altText}](${imagePath})`;
+            return generateImagePath(localized.localPath, sourcePath, settings.linkFormat);
+        }
+
+        // Create the new link to the local image
+        let link: string;
+        if (embed.kind === 'markdown') {
+            link = generateImageLink(app, localized.localPath, sourcePath, altText, settings.linkFormat);
+            link = addLinkTitle(link, embed.rawTitle);
+        } else if (tag && settings.htmlImageFormat === 'html') {
+            // A <picture> becomes its <img>, as its sources point at the remote images
+            link = rewriteImageTag(tag, generateImagePath(localized.localPath, sourcePath, settings.linkFormat));
         } else {
-            stats.failed++;
-            console.error(`Failed to download image: ${imageUrl}`, result.error);
-            return match;
+            const size = tag && settings.htmlImageFormat === 'markdown-sized' ? getImageSize(tag) : '';
+            const alias = size ? (altText ? `${altText}|${size}` : size) : altText;
+            link = generateImageLink(app, localized.localPath, sourcePath, alias, settings.linkFormat);
+            const title = tag ? getHtmlAttribute(tag, 'title') : undefined;
+            if (title && title.value) {
+                link = addLinkTitle(link, `"${title.value.replace(/"/g, '\\"')}"`);
+            }
         }
+        return recordSource(ctx, link, imageUrl, localized.localPath, sourcePath);
+    }));
+
+    // Rewrite only the embeds, leaving the text around them as it is
+    let newContent = '';
+    let position = 0;
+    embeds.forEach((embed, i) => {
+        newContent += content.slice(position, embed.start) + replacements[i];
+        position = embed.end;
     });
+    return newContent + content.slice(position);
+}
 
-    // Process HTML image tags
-    newContent = await replaceAsync(newContent, HTML_IMG_REGEX, async (match, imageUrl) => {
-        // Check if this URL is likely an image URL
-        if (!isLikelyImageUrl(imageUrl)) {
-            log.debug(`Skipping HTML URL that doesn't appear to be an image: ${imageUrl}`);
-            return match; // Skip URLs that don't appear to be images
+/**
+ * Points the image embeds that use a URL at another URL
+ * Only the destinations of matching embeds change, so the URL is left alone in code, in
+ * ordinary links and where it is merely the start of a longer URL.
+ * @param content The markdown content
+ * @param oldUrl The URL to replace
+ * @param newUrl The URL to use instead
+ * @returns The updated content
+ */
+export function replaceImageUrl(content: string, oldUrl: string, newUrl: string): string {
+    const embeds = findImageEmbeds(content).filter(embed => getEmbedUrl(embed, false) === oldUrl);
+
+    let newContent = '';
+    let position = 0;
+    for (const embed of embeds) {
+        const original = content.slice(embed.start, embed.end);
+        let replacement: string;
+        if (embed.kind === 'definition') {
+            // The range of a definition covers only its destination
+            replacement = newUrl;
+        } else if (embed.kind === 'markdown') {
+            const urlStart = original.indexOf(embed.url, embed.altText.length + 3);
+            replacement = original.slice(0, urlStart) + newUrl + original.slice(urlStart + embed.url.length);
+        } else {
+            // A <picture> becomes its <img>, as its sources point at the old URL
+            replacement = rewriteImageTag(embed.kind === 'html' ? embed : embed.image, newUrl);
         }
+        newContent += content.slice(position, embed.start) + replacement;
+        position = embed.end;
+    }
+    return newContent + content.slice(position);
+}
+
+/**
+ * Checks whether content has remote image embeds outside code, math and comments
+ * @param content The markdown content
+ * @returns True if there is at least one remote image
+ */
+export function containsRemoteImages(content: string): boolean {
+    return findImageEmbeds(content).some(embed => getEmbedUrl(embed, false) !== null);
+}
+
+/**
+ * Gets the URL of an image embed that can be saved to the vault
+ * @param embed The embed
+ * @param allowDataUris Whether data:image URIs are returned as well
+ * @returns The http(s) or data URI, or null if the embed points elsewhere
+ */
+function getEmbedUrl(embed: ImageEmbed, allowDataUris: boolean): string | null {
+    let url: string | null;
+    if (embed.kind === 'markdown' || embed.kind === 'definition') {
+        // Undo markdown escapes, and encode the spaces <destinations> may contain
+        url = embed.url.replace(/\\([!-\/:-@\[-`{-~])/g, '$1').replace(/ /g, '%20');
+    } else if (embed.kind === 'html') {
+        url = getImageTagUrl(embed);
+    } else {
+        url = getPictureUrl(embed);
+    }
+    if (url === null) {
+        return null;
+    }
+    if (allowDataUris && /^data:image\//i.test(url)) {
+        return url;
+    }
+    return /^https?:\/\/\S+$/i.test(url) ? url : null;
+}
 
-        stats.total++;
+function isDataUri(url: string): boolean {
+    return /^data:/i.test(url);
+}
 
-        // Check if the URL is from an ignored domain
-        if (isIgnoredDomain(imageUrl, settings.ignoredDomains)) {
-            stats.skipped++;
-            return match;
-        }
+/**
+ * Keeps the title of a markdown image on the rewritten link
+ * Wikilinks can't carry a title, so they are returned as they are.
+ * @param link The rewritten link
+ * @param rawTitle The original title with its delimiters, or ''
+ * @returns The link with the title
+ */
+function addLinkTitle(link: string, rawTitle: string): string {
+    if (!rawTitle || link.startsWith('![[') || !link.endsWith(')')) {
+        return link;
+    }
+    return `${link.slice(0, -1)} ${rawTitle})`;
+}
 
-        log.debug(`Processing HTML image URL: ${imageUrl}`);
-        const result = await downloadAndSaveImage(imageUrl, vault, settings, basePath);
+/**
+ * Downloads an image found in a note unless it should be skipped, and updates the stats
+ * @param imageUrl The URL of the image
+ * @param ctx The plugin services used for processing
+ * @param source Where the image was found
+ * @param stats Stats object to update
+ * @param signal Cancels the download
+ * @returns Whether to replace the link with the saved image, keep it as it is or remove it
+ */
+export async function localizeImage(
+    imageUrl: string,
+    ctx: ImageProcessorContext,
+    source: ImageSource,
+    stats: ProcessingStats,
+    signal?: AbortSignal
+): Promise<Localization> {
+    const notePath = source.file ? source.file.path : '';
+    stats.total++;
+
+    // Check the URL against the allow and deny rules
+    const filter = evaluateUrlFilters(ctx.settings.urlFilters, ctx.settings.allowlistOnly, imageUrl);
+    if (!filter.allowed) {
+        log.debug(`Skipping ${imageUrl}: ${filter.rule ? `excluded by rule ${filter.index + 1}` : 'not allowlisted'}`);
+        countSkipped(stats, filter.rule ? 'excluded by rule' : 'not allowlisted');
+        return { action: 'keep' };
+    }
 
-        if (result.success && result.localPath) {
-            stats.downloaded++;
-            // Extract any attributes from the original tag
-            const altMatch = match.match(/alt=["']([^"']*)["']/);
-            const altText = altMatch ? altMatch[1] : '';
+    // Don't hit URLs that failed or were skipped recently again on every change to the note
+    const skipReason = ctx.failures.getSkipReason(imageUrl);
+    if (skipReason) {
+        log.debug(`Skipping ${imageUrl}: ${skipReason}`);
+        const record = ctx.failures.get(imageUrl);
+        countSkipped(stats, record && record.reason ? record.reason : 'failed before');
+        // Links to images found too small before are removed on later runs as well
+        const removeLink = !!record && record.kind === 'skipped' && record.reason === 'too small' &&
+            ctx.settings.removeTinyImageLinks;
+        return { action: removeLink ? 'remove' : 'keep' };
+    }
 
-            // Create the new markdown with the local image path
-            let imagePath = result.localPath.split('/').pop();
-            
-            return `![${altText}](${imagePath})`;
-        } else {
-            stats.failed++;
-            console.error(`Failed to download image: ${imageUrl}`, result.error);
-            return match;
+    const result = await downloadAndSaveImage(imageUrl, ctx, source, signal);
+
+    if (result.success && result.localPath) {
+        stats.downloaded++;
+        if (result.details) {
+            countSaved(stats, result.details);
         }
-    });
+        ctx.failures.remove(imageUrl);
+        return { action: 'replace', localPath: result.localPath };
+    } else if (result.error instanceof DownloadCancelledError) {
+        countSkipped(stats, 'cancelled');
+        return { action: 'keep' };
+    } else if (result.error instanceof ImageSkippedError) {
+        log.info(`Skipping image: ${result.error.message}`);
+        countSkipped(stats, result.error.reason);
+        // Remember the image so it isn't downloaded again on every change to the note
+        ctx.failures.recordFailure(imageUrl, notePath, result.error);
+        return { action: result.error.removeLink ? 'remove' : 'keep' };
+    } else {
+        stats.failed++;
+        console.error(`Failed to download image: ${imageUrl}`, result.error);
+        ctx.failures.recordFailure(imageUrl, notePath, result.error || new Error('Unknown error'));
+        return { action: 'keep' };
+    }
+}
+
+/**
+ * Saves an image embedded as a data URI to the vault, and updates the stats
+ * URL filters and the failure registry don't apply, as there is nothing to download.
+ * @param dataUri The data URI
+ * @param ctx The plugin services used for processing
+ * @param source Where the image was found
+ * @param stats Stats object to update
+ * @returns Whether to replace the embed with the saved image, keep it as it is or remove it
+ */
+async function extractDataUri(
+    dataUri: string,
+    ctx: ImageProcessorContext,
+    source: ImageSource,
+    stats: ProcessingStats
+): Promise<Localization> {
+    const label = describeDataUri(dataUri);
+    stats.total++;
 
-    return newContent;
+    try {
+        const { data, contentType } = decodeDataUri(dataUri);
+        const saved = await saveImage(data, contentType, dataUri, ctx, source);
+        stats.downloaded++;
+        stats.extracted++;
+        countSaved(stats, saved.details);
+        return { action: 'replace', localPath: saved.localPath };
+    } catch (error) {
+        if (error instanceof ImageSkippedError) {
+            log.info(`Skipping embedded image ${label}: ${error.reason}`);
+            countSkipped(stats, error.reason);
+            return { action: error.removeLink ? 'remove' : 'keep' };
+        }
+        stats.failed++;
+        console.error(`Failed to extract embedded image ${label}`, error);
+        return { action: 'keep' };
+    }
+}
+
+/**
+ * Records where a localized image came from, according to the provenance setting
+ * @param ctx The plugin services used for processing
+ * @param link The rewritten link
+ * @param imageUrl The original URL
+ * @param localPath Vault path of the saved image
+ * @param notePath Path of the note containing the link ('' if unknown)
+ * @returns The link to write into the note
+ */
+function recordSource(
+    ctx: ImageProcessorContext,
+    link: string,
+    imageUrl: string,
+    localPath: string,
+    notePath: string
+): string {
+    if (isDataUri(imageUrl)) {
+        // The data URI is what extraction removes from the note, so it isn't kept as a source
+        return link;
+    }
+    if (ctx.settings.provenanceMode === 'comment') {
+        return `${link}${formatSourceComment(imageUrl)}`;
+    }
+
+    ctx.provenance.record({ localPath, url: imageUrl, notePath });
+    return link;
 }
 
 /**
  * Downloads and saves an image to the vault
  * @param imageUrl The URL of the image to download
- * @param vault The Obsidian vault
- * @param settings Plugin settings
- * @param basePath The base path where the image should be saved
- * @returns Object with success status, local path, and error if any
+ * @param ctx The plugin services used for processing
+ * @param source Where the image was found
+ * @param signal Cancels the download
+ * @returns Object with success status, local path, details of a new download, and error if any
  */
 async function downloadAndSaveImage(
     imageUrl: string,
-    vault: Vault,
-    settings: SaveImagesOfflineSettings,
-    basePath: string
-): Promise<{ success: boolean, localPath?: string, error?: Error }> {
+    ctx: ImageProcessorContext,
+    source: ImageSource,
+    signal?: AbortSignal
+): Promise<{ success: boolean, localPath?: string, details?: SaveDetails, error?: Error }> {
     log.debug(`Starting download and save process for image URL: ${imageUrl}`);
+    const { app, imageIndex } = ctx;
+    const vault = app.vault;
     try {
-        // Download the image
-        const imageData = await downloadImage(
-            imageUrl,
-            settings.downloadTimeout,
-            settings.maxDownloadRetries
-        );
-
-        if (!imageData) {
-            return {
-                success: false,
-                error: new Error(`Failed to download image from ${imageUrl}`)
-            };
-        }
-
-        // Determine file extension and prepare the image data
-        let finalImageData = imageData;
-        let fileExtension = getFileExtension(imageUrl);
-
-        // Always try to detect the file type from the binary data for verification
-        const header = new Uint8Array(imageData.slice(0, 12));
-        let detectedExtension = '';
-
-        // Check for common image signatures
-        if (header[0] === 0x89 && header[1] === 0x50 && header[2] === 0x4E && header[3] === 0x47) {
-            detectedExtension = 'png';
-            log.debug(`Detected PNG signature in binary data`);
-        } else if (header[0] === 0xFF && header[1] === 0xD8) {
-            detectedExtension = 'jpg';
-            log.debug(`Detected JPEG signature in binary data`);
-        } else if (header[0] === 0x47 && header[1] === 0x49 && header[2] === 0x46) {
-            detectedExtension = 'gif';
-            log.debug(`Detected GIF signature in binary data`);
-        } else if (header[0] === 0x52 && header[1] === 0x49 && header[2] === 0x46 && header[3] === 0x46) {
-            // WEBP files start with RIFF and have WEBP at offset 8
-            if (header[8] === 0x57 && header[9] === 0x45 && header[10] === 0x42 && header[11] === 0x50) {
-                detectedExtension = 'jpg'; // Convert webp to jpg for better compatibility
-                log.debug(`Detected WEBP signature in binary data, using jpg for compatibility`);
-            } else {
-                detectedExtension = 'jpg'; // Default for RIFF but not WEBP
-                log.debug(`Detected RIFF signature but not WEBP in binary data, using jpg`);
-            }
-        } else if (header[0] === 0x42 && header[1] === 0x4D) {
-            detectedExtension = 'bmp';
-            log.debug(`Detected BMP signature in binary data`);
+        // Skip the network for URLs that were already downloaded
+        const known = imageIndex.getByUrl(imageUrl);
+        if (known && await vault.adapter.exists(known.localPath)) {
+            log.debug(`Image index has ${imageUrl} at ${known.localPath}`);
+            return { success: true, localPath: known.localPath };
         }
 
-        // If we detected a different extension than what we parsed from the URL
-        if (detectedExtension && detectedExtension !== fileExtension) {
-            log.debug(`Extension mismatch: URL suggests ${fileExtension} but binary data indicates ${detectedExtension}`);
-            // Use the detected extension as it's more reliable
-            fileExtension = detectedExtension;
-        }
-
-        // Ensure we have a valid file extension
-        if (!fileExtension) {
-            // Default to jpg if we can't detect the type
-            fileExtension = 'jpg';
-            log.debug(`Could not detect file type for ${imageUrl}, defaulting to jpg`);
-        }
-
-        // Special handling for awebp extension
-        if (fileExtension === 'awebp') {
-            log.debug(`Converting awebp extension to jpg for better compatibility`);
-            fileExtension = 'jpg';
-        }
+        // Download the image and save it
+        const { data: imageData, contentType } = await ctx.downloadQueue.download(imageUrl, signal);
+        const saved = await saveImage(imageData, contentType, imageUrl, ctx, source);
+        return { success: true, localPath: saved.localPath, details: saved.details };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error : new Error(String(error))
+        };
+    }
+}
 
-        // Convert PNG to JPEG if enabled
-        if (settings.convertPngToJpeg && fileExtension.toLowerCase() === 'png') {
-            try {
-                finalImageData = await convertPngToJpeg(imageData, settings.jpegQuality);
-                fileExtension = 'jpg';
-            } catch (error) {
-                console.error('Error converting PNG to JPEG:', error);
-                // Continue with the original PNG if conversion fails
-            }
-        }
+/**
+ * Runs an image through type detection, the size checks, sanitization, conversion, resizing and
+ * metadata removal, and saves it to the vault
+ * Data URIs aren't added to the image index, as the URI is the image itself.
+ * @param imageData The image data as downloaded or decoded
+ * @param contentType The Content-Type or media type of the data
+ * @param imageUrl The URL or data URI of the image
+ * @param ctx The plugin services used for processing
+ * @param source Where the image was found
+ * @returns The path the image is available at and what happened to it
+ * @throws ImageSkippedError if the image is too small
+ */
+async function saveImage(
+    imageData: ArrayBuffer,
+    contentType: string,
+    imageUrl: string,
+    ctx: ImageProcessorContext,
+    source: ImageSource
+): Promise<{ localPath: string, details: SaveDetails }> {
+    const { app, settings, imageIndex } = ctx;
+    const vault = app.vault;
+    const inline = isDataUri(imageUrl);
+    const name = inline ? describeDataUri(imageUrl) : imageUrl;
+
+    // Check that it really is an image
+    const imageType = detectImageType(imageData, contentType, imageUrl);
+    log.debug(`Detected ${imageType.mimeType}${imageType.animated ? ' (animated)' : ''} for ${name}`);
+
+    // Drop tracking pixels and other tiny images
+    checkMinimumSize(name, imageData, imageType, settings);
+
+    // Remove scripts and external references from SVGs
+    let sanitized = false;
+    let processedData = imageData;
+    if (imageType.extension === 'svg') {
+        ({ data: processedData, modified: sanitized } = sanitizeSvg(imageData));
+    }
 
-        // Generate filename
-        let filename: string;
-        if (settings.useMD5ForFilenames) {
-            // Use MD5 hash of the image content as filename
-            const hash = calculateMD5(finalImageData);
-
-            // Try to extract a meaningful name from the URL
-            let meaningfulName = '';
-            try {
-                const urlObj = new URL(imageUrl);
-                const urlPath = urlObj.pathname;
-
-                // Try to find a meaningful segment in the path
-                const pathSegments = urlPath.split('/').filter(segment => segment.length > 0);
-                if (pathSegments.length > 0) {
-                    // Use the last segment that's not just a hash or ID
-                    for (let i = pathSegments.length - 1; i >= 0; i--) {
-                        const segment = pathSegments[i];
-                        // Skip segments that look like hashes or IDs
-                        if (!/^[0-9a-f]{8,}$/i.test(segment) && !/^\d+$/.test(segment)) {
-                            // Remove extension if present
-                            meaningfulName = segment.replace(/\.[^.]+$/, '');
-                            break;
-                        }
-                    }
-                }
+    // Convert to another format if a conversion rule matches
+    const converted = await convertImage(processedData, imageType, settings.conversionRules);
 
-                // If we couldn't find a meaningful name, try to use the hostname
-                if (!meaningfulName) {
-                    const hostname = urlObj.hostname.replace(/\./g, '-');
-                    meaningfulName = hostname;
-                }
-            } catch (error) {
-                console.error('Error extracting meaningful name from URL:', error);
-            }
+    // Downscale images larger than the size limits
+    const resized = await downscaleImage(converted.data, converted.type, {
+        maxWidth: settings.maxImageWidth,
+        maxHeight: settings.maxImageHeight,
+        maxMegapixels: settings.maxImageMegapixels
+    });
 
-            // Combine meaningful name with hash for uniqueness
-            if (meaningfulName) {
-                meaningfulName = sanitizeFilename(meaningfulName);
-                // Limit the length of the meaningful name
-                if (meaningfulName.length > 30) {
-                    meaningfulName = meaningfulName.substring(0, 30);
-                }
-                filename = `${meaningfulName}-${hash.substring(0, 8)}.${fileExtension}`;
-            } else {
-                filename = `${hash}.${fileExtension}`;
-            }
-        } else {
-            // Use the original filename from the URL
-            const urlObj = new URL(imageUrl);
-            const urlPath = urlObj.pathname;
-            const originalFilename = path.basename(urlPath);
-            filename = sanitizeFilename(originalFilename);
-
-            // Add extension if missing
-            if (!filename.includes('.')) {
-                filename = `${filename}.${fileExtension}`;
-            }
-        }
+    // Remove EXIF, XMP, IPTC and PNG text before hashing, so identical images stay identical
+    const finalImageData = settings.stripImageMetadata ? stripMetadata(resized.data, resized.type) : resized.data;
+    const fileExtension = resized.type.extension;
+    const details: SaveDetails = {
+        downloaded: imageData.byteLength,
+        saved: finalImageData.byteLength,
+        beforeResize: 0,
+        afterResize: 0,
+        sanitized
+    };
+    if (resized.data !== converted.data) {
+        details.beforeResize = converted.data.byteLength;
+        details.afterResize = resized.data.byteLength;
+    }
 
-        // Final check to ensure filename has an extension
-        if (!filename.includes('.')) {
-            filename = `${filename}.${fileExtension}`;
-            log.debug(`Added missing extension to filename: ${filename}`);
+    // Reuse an identical image saved anywhere in the vault
+    const hash = calculateMD5(finalImageData);
+    const identicalPath = imageIndex.getPathByHash(hash);
+    if (identicalPath && await vault.adapter.exists(identicalPath)) {
+        log.debug(`Image from ${name} is identical to ${identicalPath}`);
+        if (!inline) {
+            imageIndex.add(imageUrl, identicalPath, hash);
         }
+        return { localPath: identicalPath, details };
+    }
 
-        // Full path in the vault
-        // Ensure we don't have double slashes in the path
-        const localPath = basePath.endsWith('/') ?
-            `${basePath}${filename}` :
-            `${basePath}/${filename}`;
+    // Generate filename from the template
+    const filename = generateFilename(settings.filenameTemplate, {
+        imageUrl,
+        hash,
+        extension: fileExtension,
+        altText: source.altText,
+        file: source.file,
+        index: source.index
+    }, settings.maxFilenameLength);
+    log.debug(`Generated filename ${filename} for ${name}`);
+
+    // Determine the folder for saving the image and make sure it exists
+    const folder = await resolveImageFolder(app, settings, source.file, imageUrl, filename);
+    await ensureFolderExists(vault, folder);
+
+    // Full path in the vault
+    const localPath = normalizePath(`${folder}/${filename}`);
+
+    // Save the image to the vault, reusing an identical file if there is one
+    const savedPath = await saveImageData(vault, localPath, finalImageData, settings.collisionPolicy);
+    if (!inline) {
+        imageIndex.add(imageUrl, savedPath, hash);
+    }
+    return { localPath: savedPath, details };
+}
 
-        // Check if file already exists
-        if (await vault.adapter.exists(localPath)) {
-            // File already exists, no need to save again
-            return { success: true, localPath };
-        }
+/**
+ * Checks an image against the minimum size settings
+ * @param imageUrl The URL of the image
+ * @param data The image data
+ * @param type The detected type of the image
+ * @param settings The plugin settings
+ * @throws ImageSkippedError if the image is smaller than the minimum file size or dimension
+ */
+function checkMinimumSize(imageUrl: string, data: ArrayBuffer, type: ImageType, settings: SaveImagesOfflineSettings): void {
+    const removeLink = settings.removeTinyImageLinks;
 
-        // Save the image to the vault
-        await vault.createBinary(localPath, finalImageData);
+    if (settings.minImageBytes > 0 && data.byteLength < settings.minImageBytes) {
+        throw new ImageSkippedError('too small', `${imageUrl} is only ${data.byteLength} bytes`, removeLink);
+    }
 
-        return { success: true, localPath };
-    } catch (error) {
-        return {
-            success: false,
-            error: error instanceof Error ? error : new Error(String(error))
-        };
+    if (settings.minImageDimension > 0) {
+        const size = readImageDimensions(data, type);
+        if (size && (size.width < settings.minImageDimension || size.height < settings.minImageDimension)) {
+            throw new ImageSkippedError('too small', `${imageUrl} is only ${size.width}x${size.height} pixels`, removeLink);
+        }
     }
 }
 
 /**
- * Helper function to replace async in a string
- * @param str The string to process
- * @param regex The regex to match
- * @param asyncFn The async function to call for each match
- * @returns The processed string
+ * Writes image data to the vault, handling files that already exist at the target path
+ * An existing file with the same content is reused. A different file is handled according
+ * to the collision policy.
+ * @param vault The Obsidian vault
+ * @param localPath The target path
+ * @param data The image data
+ * @param policy What to do when a different file already exists at the target path
+ * @returns The path the image is available at
  */
-async function replaceAsync(
-    str: string,
-    regex: RegExp,
-    asyncFn: (...args: string[]) => Promise<string>
+async function saveImageData(
+    vault: Vault,
+    localPath: string,
+    data: ArrayBuffer,
+    policy: CollisionPolicy
 ): Promise<string> {
-    const promises: Promise<string>[] = [];
-    str.replace(regex, (match, ...args) => {
-        const promise = asyncFn(match, ...args);
-        promises.push(promise);
-        return match;
-    });
-    const data = await Promise.all(promises);
-    return str.replace(regex, () => data.shift() || '');
+    if (!(await vault.adapter.exists(localPath))) {
+        try {
+            await vault.createBinary(localPath, data);
+            return localPath;
+        } catch (error) {
+            // Another download may have saved a file at the same path in the meantime
+            if (!(await vault.adapter.exists(localPath))) {
+                throw error;
+            }
+        }
+    }
+
+    if (arrayBuffersEqual(await vault.adapter.readBinary(localPath), data)) {
+        // Same image already saved, no need to save again
+        log.debug(`Identical image already exists at ${localPath}`);
+        return localPath;
+    }
+
+    switch (policy) {
+        case 'overwrite': {
+            log.info(`Overwriting different image at ${localPath}`);
+            const existingFile = vault.getAbstractFileByPath(localPath);
+            if (existingFile instanceof TFile) {
+                await vault.modifyBinary(existingFile, data);
+            } else {
+                await vault.adapter.writeBinary(localPath, data);
+            }
+            return localPath;
+        }
+        case 'fail':
+            throw new Error(`A different image already exists at ${localPath}`);
+        case 'suffix':
+        default: {
+            // Try name-1.ext, name-2.ext, ... until a free or identical file is found
+            const extIndex = localPath.lastIndexOf('.');
+            const stem = extIndex > localPath.lastIndexOf('/') ? localPath.substring(0, extIndex) : localPath;
+            const ext = stem === localPath ? '' : localPath.substring(extIndex);
+
+            for (let suffix = 1; ; suffix++) {
+                const candidate = `${stem}-${suffix}${ext}`;
+                if (!(await vault.adapter.exists(candidate))) {
+                    log.debug(`Different image exists at ${localPath}, saving as ${candidate}`);
+                    await vault.createBinary(candidate, data);
+                    return candidate;
+                }
+                if (arrayBuffersEqual(await vault.adapter.readBinary(candidate), data)) {
+                    return candidate;
+                }
+            }
+        }
+    }
 }
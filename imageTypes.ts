@@ -0,0 +1,378 @@
+import { getFileExtension } from './utils';
+import { log } from './logger';
+
+/**
+ * The detected format of downloaded image data
+ */
+export interface ImageType {
+    // File extension the image is saved with, without the dot
+    extension: string;
+    mimeType: string;
+    // Animated GIF, APNG or animated WebP
+    animated: boolean;
+}
+
+// Image MIME types and the extension their files are saved with
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/apng': 'png',
+    'image/jpeg': 'jpg',
+    'image/jpg': 'jpg',
+    'image/pjpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/avif': 'avif',
+    'image/heic': 'heic',
+    'image/heif': 'heic',
+    'image/tiff': 'tiff',
+    'image/bmp': 'bmp',
+    'image/x-ms-bmp': 'bmp',
+    'image/x-icon': 'ico',
+    'image/vnd.microsoft.icon': 'ico'
+};
+
+// Extensions found in URLs and the extension their files are saved with
+const URL_EXTENSIONS: Record<string, string> = {
+    'png': 'png',
+    'apng': 'png',
+    'jpg': 'jpg',
+    'jpeg': 'jpg',
+    'jfif': 'jpg',
+    'gif': 'gif',
+    'webp': 'webp',
+    'awebp': 'webp',
+    'svg': 'svg',
+    'avif': 'avif',
+    'heic': 'heic',
+    'heif': 'heic',
+    'tif': 'tiff',
+    'tiff': 'tiff',
+    'bmp': 'bmp',
+    'ico': 'ico'
+};
+
+// ISO base media file brands (the "ftyp" box) of AVIF and HEIC images
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+/**
+ * Detects the format of downloaded image data
+ * The bytes decide whenever they carry a known signature; otherwise the Content-Type header
+ * and then the URL are used as hints.
+ * @param data The downloaded data
+ * @param contentType The Content-Type header of the response ('' if missing)
+ * @param url The URL the data was downloaded from
+ * @returns The detected image type
+ * @throws Error if the response is not an image, e.g. an HTML error page or JSON
+ */
+export function detectImageType(data: ArrayBuffer, contentType: string, url: string): ImageType {
+    const bytes = new Uint8Array(data);
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+    const sniffed = sniffImageType(bytes);
+    if (sniffed) {
+        if (mimeType && MIME_EXTENSIONS[mimeType] && MIME_EXTENSIONS[mimeType] !== sniffed.extension) {
+            log.debug(`Content-Type of ${url} is ${mimeType} but data is ${sniffed.mimeType}, using ${sniffed.extension}`);
+        }
+        return sniffed;
+    }
+
+    const nonImage = describeNonImage(bytes, mimeType);
+    if (nonImage) {
+        throw new Error(`Response from ${url} is ${nonImage}, not an image`);
+    }
+
+    if (MIME_EXTENSIONS[mimeType]) {
+        log.debug(`No known signature in ${url}, using Content-Type ${mimeType}`);
+        return { extension: MIME_EXTENSIONS[mimeType], mimeType, animated: false };
+    }
+
+    const urlExtension = URL_EXTENSIONS[getFileExtension(url)];
+    if (urlExtension && (!mimeType || mimeType === 'application/octet-stream' || mimeType.startsWith('image/'))) {
+        log.debug(`No known signature in ${url}, using the URL's .${urlExtension} extension`);
+        return { extension: urlExtension, mimeType: mimeType || `image/${urlExtension}`, animated: false };
+    }
+
+    throw new Error(`Response from ${url} is not a recognized image (${mimeType || 'no Content-Type'})`);
+}
+
+/**
+ * Reads the pixel size of an image from its header, without decoding it
+ * @param data The image data
+ * @param type The detected type of the image
+ * @returns The size, or null if the format's header isn't supported or is malformed
+ */
+export function readImageDimensions(data: ArrayBuffer, type: ImageType): { width: number, height: number } | null {
+    const bytes = new Uint8Array(data);
+    let size: { width: number, height: number } | null = null;
+
+    switch (type.extension) {
+        case 'png':
+            // IHDR is always the first chunk
+            if (bytes.length >= 24) {
+                size = { width: readUint32(bytes, 16), height: readUint32(bytes, 20) };
+            }
+            break;
+        case 'gif':
+            if (bytes.length >= 10) {
+                size = { width: bytes[6] | (bytes[7] << 8), height: bytes[8] | (bytes[9] << 8) };
+            }
+            break;
+        case 'bmp':
+            if (bytes.length >= 26) {
+                size = { width: Math.abs(readInt32LE(bytes, 18)), height: Math.abs(readInt32LE(bytes, 22)) };
+            }
+            break;
+        case 'jpg':
+            size = readJpegDimensions(bytes);
+            break;
+        case 'webp':
+            size = readWebpDimensions(bytes);
+            break;
+    }
+
+    return size && size.width > 0 && size.height > 0 ? size : null;
+}
+
+/**
+ * Reads the size from the start-of-frame segment of a JPEG
+ * @param bytes The JPEG data
+ * @returns The size, or null if no frame header was found
+ */
+function readJpegDimensions(bytes: Uint8Array): { width: number, height: number } | null {
+    let pos = 2;
+    while (pos + 9 <= bytes.length) {
+        if (bytes[pos] !== 0xFF) {
+            return null;
+        }
+        const marker = bytes[pos + 1];
+        if (marker === 0xFF) {
+            pos++;
+            continue;
+        }
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+            return {
+                width: (bytes[pos + 7] << 8) | bytes[pos + 8],
+                height: (bytes[pos + 5] << 8) | bytes[pos + 6]
+            };
+        }
+        pos += 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3]);
+    }
+    return null;
+}
+
+/**
+ * Reads the size from the first chunk of a WebP
+ * @param bytes The WebP data
+ * @returns The size, or null for an unknown chunk layout
+ */
+function readWebpDimensions(bytes: Uint8Array): { width: number, height: number } | null {
+    if (bytes.length < 30) {
+        return null;
+    }
+    const chunk = readAscii(bytes, 12, 4);
+    if (chunk === 'VP8X') {
+        return {
+            width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+            height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+        };
+    }
+    if (chunk === 'VP8 ') {
+        return {
+            width: (bytes[26] | (bytes[27] << 8)) & 0x3FFF,
+            height: (bytes[28] | (bytes[29] << 8)) & 0x3FFF
+        };
+    }
+    if (chunk === 'VP8L') {
+        const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+        return {
+            width: 1 + (bits & 0x3FFF),
+            height: 1 + ((bits >> 14) & 0x3FFF)
+        };
+    }
+    return null;
+}
+
+/**
+ * Recognizes image formats by their magic bytes
+ * @param bytes The data
+ * @returns The image type, or null if no known signature was found
+ */
+function sniffImageType(bytes: Uint8Array): ImageType | null {
+    if (startsWith(bytes, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) {
+        const animated = isAnimatedPng(bytes);
+        return { extension: 'png', mimeType: animated ? 'image/apng' : 'image/png', animated };
+    }
+    if (startsWith(bytes, [0xFF, 0xD8, 0xFF])) {
+        return { extension: 'jpg', mimeType: 'image/jpeg', animated: false };
+    }
+    if (readAscii(bytes, 0, 4) === 'GIF8') {
+        return { extension: 'gif', mimeType: 'image/gif', animated: isAnimatedGif(bytes) };
+    }
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+        // Extended WebP files have a VP8X chunk whose flags mark animation
+        const animated = readAscii(bytes, 12, 4) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+        return { extension: 'webp', mimeType: 'image/webp', animated };
+    }
+    if (readAscii(bytes, 4, 4) === 'ftyp') {
+        return sniffIsoImage(bytes);
+    }
+    if (startsWith(bytes, [0x49, 0x49, 0x2A, 0x00]) || startsWith(bytes, [0x4D, 0x4D, 0x00, 0x2A])) {
+        return { extension: 'tiff', mimeType: 'image/tiff', animated: false };
+    }
+    if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00]) && bytes.length > 6 && bytes[4] + bytes[5] > 0) {
+        return { extension: 'ico', mimeType: 'image/x-icon', animated: false };
+    }
+    if (readAscii(bytes, 0, 2) === 'BM' && bytes.length > 14) {
+        return { extension: 'bmp', mimeType: 'image/bmp', animated: false };
+    }
+    if (isSvg(bytes)) {
+        return { extension: 'svg', mimeType: 'image/svg+xml', animated: false };
+    }
+    return null;
+}
+
+/**
+ * Recognizes AVIF and HEIC images by the brands of their ftyp box
+ * @param bytes The data, starting with an ftyp box
+ * @returns The image type, or null for other ISO media files such as MP4 video
+ */
+function sniffIsoImage(bytes: Uint8Array): ImageType | null {
+    const boxSize = Math.min(readUint32(bytes, 0), bytes.length);
+    const brands = [readAscii(bytes, 8, 4)];
+    // Compatible brands follow the major brand and minor version
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+        brands.push(readAscii(bytes, offset, 4));
+    }
+
+    if (brands.some(brand => AVIF_BRANDS.includes(brand))) {
+        return { extension: 'avif', mimeType: 'image/avif', animated: brands.includes('avis') };
+    }
+    if (brands.some(brand => HEIC_BRANDS.includes(brand))) {
+        return { extension: 'heic', mimeType: 'image/heic', animated: false };
+    }
+    return null;
+}
+
+/**
+ * Checks whether a PNG has an animation control chunk before its image data
+ * @param bytes The PNG data
+ * @returns True for APNG
+ */
+function isAnimatedPng(bytes: Uint8Array): boolean {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const type = readAscii(bytes, offset + 4, 4);
+        if (type === 'acTL') {
+            return true;
+        }
+        if (type === 'IDAT' || type === 'IEND') {
+            return false;
+        }
+        offset += 12 + readUint32(bytes, offset);
+    }
+    return false;
+}
+
+/**
+ * Checks whether a GIF has more than one frame
+ * Counts graphic control extensions, which animated GIFs have one of per frame.
+ * @param bytes The GIF data
+ * @returns True for animated GIFs
+ */
+function isAnimatedGif(bytes: Uint8Array): boolean {
+    let frames = 0;
+    for (let i = 0; i + 3 < bytes.length; i++) {
+        if (bytes[i] === 0x21 && bytes[i + 1] === 0xF9 && bytes[i + 2] === 0x04 && ++frames > 1) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Checks whether text data is an SVG document
+ * @param bytes The data
+ * @returns True if the root element is <svg>
+ */
+function isSvg(bytes: Uint8Array): boolean {
+    const text = stripXmlProlog(decodeStart(bytes));
+    return /^<svg[\s>]/i.test(text);
+}
+
+/**
+ * Describes data that is clearly not an image, such as an error page
+ * @param bytes The data
+ * @param mimeType The MIME type from the Content-Type header
+ * @returns A description like "an HTML page", or null if the data may still be an image
+ */
+function describeNonImage(bytes: Uint8Array, mimeType: string): string | null {
+    const text = stripXmlProlog(decodeStart(bytes));
+
+    if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml' || /^<(!doctype html|html|head|body)[\s>]/i.test(text)) {
+        return 'an HTML page';
+    }
+    if (mimeType === 'application/json' || mimeType.endsWith('+json') || /^[{[]\s*["{[\]}]/.test(text)) {
+        return 'JSON';
+    }
+    if (mimeType.startsWith('text/') || mimeType === 'application/xml') {
+        return `text (${mimeType})`;
+    }
+    if (bytes.length === 0) {
+        return 'empty';
+    }
+    return null;
+}
+
+/**
+ * Decodes the beginning of the data as text
+ * @param bytes The data
+ * @returns Up to the first 1 KB as text, without a byte order mark and leading whitespace
+ */
+function decodeStart(bytes: Uint8Array): string {
+    let text = '';
+    const length = Math.min(bytes.length, 1024);
+    for (let i = 0; i < length; i++) {
+        text += String.fromCharCode(bytes[i]);
+    }
+    return text.replace(/^\xEF\xBB\xBF/, '').replace(/^\s+/, '');
+}
+
+/**
+ * Removes the XML declaration, comments and doctype that may precede the root element
+ * @param text The start of an XML document
+ * @returns The text from the root element on
+ */
+function stripXmlProlog(text: string): string {
+    let previous;
+    do {
+        previous = text;
+        text = text
+            .replace(/^<\?xml[^>]*\?>\s*/i, '')
+            .replace(/^<!--[\s\S]*?-->\s*/, '')
+            .replace(/^<!DOCTYPE\s+svg[^>]*>\s*/i, '');
+    } while (text !== previous);
+    return text;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+    return bytes.length >= signature.length && signature.every((byte, i) => bytes[i] === byte);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+    let text = '';
+    for (let i = offset; i < offset + length && i < bytes.length; i++) {
+        text += String.fromCharCode(bytes[i]);
+    }
+    return text;
+}
+
+function readInt32LE(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
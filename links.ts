@@ -0,0 +1,137 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import { LinkFormat } from './settings';
+
+/**
+ * Builds the embed link for a saved image
+ * @param app The Obsidian app
+ * @param imagePath Vault path of the saved image
+ * @param sourcePath Path of the note the link will be written into ('' if unknown)
+ * @param altText Alt text to keep on the link
+ * @param linkFormat Link format to use
+ * @returns The embed link, including the leading '!'
+ */
+export function generateImageLink(
+    app: App,
+    imagePath: string,
+    sourcePath: string,
+    altText: string,
+    linkFormat: LinkFormat
+): string {
+    const imageFile = app.vault.getAbstractFileByPath(imagePath);
+
+    switch (linkFormat) {
+        case 'wikilink': {
+            const linktext = imageFile instanceof TFile ?
+                app.metadataCache.fileToLinktext(imageFile, sourcePath) :
+                imagePath;
+            return altText ? `![[${linktext}|${altText}]]` : `![[${linktext}]]`;
+        }
+        case 'absolute':
+            return `![${altText}](${encodeLinkPath(imagePath)})`;
+        case 'relative':
+            return `![${altText}](${encodeLinkPath(getRelativePath(sourcePath, imagePath))})`;
+        case 'obsidian':
+        default:
+            // Obsidian may not have indexed a file we just created yet
+            if (imageFile instanceof TFile) {
+                return '!' + app.fileManager.generateMarkdownLink(imageFile, sourcePath, undefined, altText);
+            }
+            return `![${altText}](${encodeLinkPath(getRelativePath(sourcePath, imagePath))})`;
+    }
+}
+
+/**
+ * Builds the path to a saved image for an HTML src or a link reference definition
+ * @param imagePath Vault path of the saved image
+ * @param sourcePath Path of the note the path will be written into ('' if unknown)
+ * @param linkFormat Link format to use; only absolute links use the full vault path
+ * @returns The encoded path
+ */
+export function generateImagePath(imagePath: string, sourcePath: string, linkFormat: LinkFormat): string {
+    return encodeLinkPath(linkFormat === 'absolute' ? imagePath : getRelativePath(sourcePath, imagePath));
+}
+
+/**
+ * Builds the frontmatter property value for a saved image
+ * Properties only support wikilinks, so markdown link formats write the plain path instead.
+ * @param app The Obsidian app
+ * @param imagePath Vault path of the saved image
+ * @param sourcePath Path of the note the property belongs to
+ * @param linkFormat Link format to use
+ * @returns e.g. "[[cover.png]]" or "attachments/cover.png"
+ */
+export function generatePropertyLink(app: App, imagePath: string, sourcePath: string, linkFormat: LinkFormat): string {
+    switch (linkFormat) {
+        case 'absolute':
+            return imagePath;
+        case 'relative':
+            return getRelativePath(sourcePath, imagePath);
+        case 'wikilink':
+        case 'obsidian':
+        default: {
+            const imageFile = app.vault.getAbstractFileByPath(imagePath);
+            const linktext = imageFile instanceof TFile ?
+                app.metadataCache.fileToLinktext(imageFile, sourcePath) :
+                imagePath;
+            return `[[${linktext}]]`;
+        }
+    }
+}
+
+/**
+ * Gets the path of a vault file relative to the folder of a note
+ * @param sourcePath Path of the note ('' for the vault root)
+ * @param targetPath Vault path of the target file
+ * @returns The relative path
+ */
+function getRelativePath(sourcePath: string, targetPath: string): string {
+    const sourceFolder = sourcePath.substring(0, sourcePath.lastIndexOf('/') + 1);
+    return path.posix.relative(sourceFolder || '.', targetPath);
+}
+
+/**
+ * Escapes the characters that would break a markdown link destination
+ * @param linkPath The path to escape
+ * @returns The escaped path
+ */
+function encodeLinkPath(linkPath: string): string {
+    return linkPath
+        .replace(/%/g, '%25')
+        .replace(/ /g, '%20')
+        .replace(/\(/g, '%28')
+        .replace(/\)/g, '%29')
+        .replace(/</g, '%3C')
+        .replace(/>/g, '%3E');
+}
+
+/**
+ * Resolves the target of an embed or an <img> src
+ * @param app The Obsidian app
+ * @param linkpath The link target as written in the note
+ * @param sourcePath Path of the note containing the link
+ * @returns The linked file, or null if it doesn't resolve
+ */
+export function resolveLinkpath(app: App, linkpath: string, sourcePath: string): TFile | null {
+    const resolved = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    if (resolved) {
+        return resolved;
+    }
+
+    // Relative markdown links that the metadata cache doesn't resolve on its own
+    const noteFolder = sourcePath.substring(0, sourcePath.lastIndexOf('/') + 1);
+    const file = app.vault.getAbstractFileByPath(normalizePath(resolveDotSegments(noteFolder + linkpath)));
+    return file instanceof TFile ? file : null;
+}
+
+function resolveDotSegments(linkPath: string): string {
+    const segments: string[] = [];
+    for (const segment of linkPath.split('/')) {
+        if (segment === '..') {
+            segments.pop();
+        } else if (segment !== '.') {
+            segments.push(segment);
+        }
+    }
+    return segments.join('/');
+}
@@ -4,7 +4,9 @@ import {
     MarkdownView,
     Editor,
     Notice,
-    TAbstractFile
+    TAbstractFile,
+    TFolder,
+    debounce
 } from 'obsidian';
 import {
     SaveImagesOfflineSettings,
@@ -13,18 +15,51 @@ import {
 } from './settings';
 import {
     processMarkdownFile,
-    processContent
+    processContent,
+    createStats,
+    addStats,
+    containsRemoteImages,
+    describeProcessing,
+    describeSkipped,
+    replaceImageUrl,
+    ProcessingStats
 } from './imageProcessor';
 import {
     showNotice,
-    IMAGE_URL_REGEX,
-    HTML_IMG_REGEX,
-    isLikelyImageUrl
+    isLikelyImageUrl,
+    isProcessableFile
 } from './utils';
+import { processCanvasFile, replaceCanvasImageUrl } from './canvas';
+import {
+    getFrontmatterImageKeys,
+    getFrontmatterImageUrls,
+    localizeFrontmatterImages,
+    rewriteFrontmatterImages
+} from './frontmatterImages';
+import { ImageIndex } from './imageIndex';
+import { ProvenanceRecorder } from './provenance';
+import { restoreOriginalUrls } from './restore';
+import { findOrphanedImages } from './orphans';
+import { OrphanedImagesModal } from './orphanedImagesModal';
+import { DownloadQueue } from './downloadQueue';
+import { ProgressModal } from './progressModal';
+import { FailureRecord, FailureRegistry } from './failedDownloads';
+import { FailedDownloadsModal } from './failedDownloadsModal';
+import { HttpTransport, createDefaultTransport } from './transport';
+import { migrateIgnoredDomains } from './urlFilters';
+import { getNoteMode } from './noteFilters';
 import { log } from './logger';
 
 export default class SaveImagesOfflinePlugin extends Plugin {
     settings: SaveImagesOfflineSettings;
+    imageIndex: ImageIndex;
+    provenance: ProvenanceRecorder;
+    downloadQueue: DownloadQueue;
+    failures: FailureRegistry;
+    // Performs every HTTP request; may be replaced with a custom transport
+    transport: HttpTransport = createDefaultTransport();
+    // Paths of notes being restored, which must not be processed again meanwhile
+    private restoringPaths: Set<string> = new Set();
     // Store event references to properly detach them when needed
     private fileModifyHandler: (file: TAbstractFile) => void;
     private fileCreateHandler: (file: TAbstractFile) => void;
@@ -32,6 +67,20 @@ export default class SaveImagesOfflinePlugin extends Plugin {
 
     async onload() {
         await this.loadSettings();
+        this.provenance = new ProvenanceRecorder(this.app, () => this.settings);
+        this.downloadQueue = new DownloadQueue(() => this.settings, () => this.transport);
+
+        // Keep the image index in sync with files moved or deleted by the user
+        this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+            if (file instanceof TFile) {
+                this.imageIndex.renamePath(oldPath, file.path);
+            }
+        }));
+        this.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+            if (file instanceof TFile) {
+                this.imageIndex.removePath(file.path);
+            }
+        }));
 
         // Add settings tab
         this.addSettingTab(new SaveImagesOfflineSettingTab(this.app, this));
@@ -61,16 +110,101 @@ export default class SaveImagesOfflinePlugin extends Plugin {
             }
         });
 
+        // Add commands to put the original URLs back
+        this.addCommand({
+            id: 'restore-original-urls-current-file',
+            name: 'Restore original image URLs for current file',
+            checkCallback: (checking: boolean) => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (activeFile && isProcessableFile(activeFile)) {
+                    if (!checking) {
+                        this.restoreFiles([activeFile]);
+                    }
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: 'restore-original-urls-current-folder',
+            name: 'Restore original image URLs for current folder',
+            checkCallback: (checking: boolean) => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (activeFile && isProcessableFile(activeFile) && activeFile.parent) {
+                    if (!checking) {
+                        this.restoreFiles(this.getProcessableFilesInFolder(activeFile.parent));
+                    }
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: 'restore-original-urls-all-files',
+            name: 'Restore original image URLs for all files',
+            callback: () => {
+                this.restoreFiles(this.app.vault.getFiles().filter(isProcessableFile));
+            }
+        });
+
+        // Add commands to deal with images that failed to download
+        this.addCommand({
+            id: 'retry-failed-images',
+            name: 'Retry failed images',
+            callback: () => {
+                this.retryFailedDownloads(this.failures.getAll()
+                    .filter(record => !record.ignored)
+                    .map(record => record.url));
+            }
+        });
+
+        this.addCommand({
+            id: 'show-failed-images',
+            name: 'Show failed images',
+            callback: () => {
+                new FailedDownloadsModal(this.app, this.failures, {
+                    retry: urls => this.retryFailedDownloads(urls),
+                    editUrl: (record, newUrl) => this.editFailedUrl(record, newUrl)
+                }).open();
+            }
+        });
+
+        // Add command to review downloaded images that are no longer used
+        this.addCommand({
+            id: 'clean-up-orphaned-images',
+            name: 'Clean up orphaned downloaded images',
+            callback: async () => {
+                const orphans = await findOrphanedImages(this.app, this.imageIndex);
+                new OrphanedImagesModal(this.app, orphans).open();
+            }
+        });
+
+        // Offer restoring from the file explorer context menu
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (file instanceof TFolder || isProcessableFile(file)) {
+                menu.addItem(item => item
+                    .setTitle('Restore original image URLs')
+                    .setIcon('undo')
+                    .onClick(() => {
+                        this.restoreFiles(file instanceof TFolder ?
+                            this.getProcessableFilesInFolder(file) :
+                            [file as TFile]);
+                    }));
+            }
+        }));
+
         // Initialize event handlers
         this.fileModifyHandler = (file: TAbstractFile) => {
-            if (file instanceof TFile && file.extension === 'md') {
-                this.processFile(file, false);
+            if (isProcessableFile(file)) {
+                this.processFileAutomatically(file);
             }
         };
 
         this.fileCreateHandler = (file: TAbstractFile) => {
-            if (file instanceof TFile && file.extension === 'md') {
-                this.processFile(file, false);
+            if (isProcessableFile(file)) {
+                this.processFileAutomatically(file);
             }
         };
 
@@ -86,7 +220,7 @@ export default class SaveImagesOfflinePlugin extends Plugin {
             const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
             if (activeView && this.settings.autoDownloadImages) {
                 if (activeView.file) {
-                    this.processFile(activeView.file, false);
+                    this.processFileAutomatically(activeView.file);
                 }
             }
         });
@@ -95,6 +229,9 @@ export default class SaveImagesOfflinePlugin extends Plugin {
     }
 
     onunload() {
+        // Write any pending image index changes
+        this.requestSave.run();
+
         // Clean up all event listeners
         log.info('Plugin unloaded');
     }
@@ -141,14 +278,50 @@ export default class SaveImagesOfflinePlugin extends Plugin {
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const { imageIndex, failedDownloads, ...data } = (await this.loadData()) || {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        this.imageIndex = new ImageIndex(imageIndex, this.requestSave);
+        this.failures = new FailureRegistry(failedDownloads, this.requestSave);
+
+        // Migrate the old "Use MD5 for filenames" toggle to the filename template
+        if (data.useMD5ForFilenames === false && data.filenameTemplate === undefined) {
+            this.settings.filenameTemplate = '{{urlname}}';
+        }
+        delete (this.settings as SaveImagesOfflineSettings & { useMD5ForFilenames?: boolean }).useMD5ForFilenames;
+
+        // Migrate the old "Convert PNG to JPEG" toggle to a conversion rule
+        if (data.convertPngToJpeg && data.conversionRules === undefined) {
+            this.settings.conversionRules = [{ formats: 'png', target: 'jpg', quality: data.jpegQuality || 85 }];
+        }
+        delete (this.settings as SaveImagesOfflineSettings & { convertPngToJpeg?: boolean }).convertPngToJpeg;
+        delete (this.settings as SaveImagesOfflineSettings & { jpegQuality?: number }).jpegQuality;
+        // Migrate the old comma-separated ignored domains to URL filter rules
+        if (data.ignoredDomains && data.urlFilters === undefined) {
+            this.settings.urlFilters = migrateIgnoredDomains(data.ignoredDomains);
+        }
+        delete (this.settings as SaveImagesOfflineSettings & { ignoredDomains?: string }).ignoredDomains;
+
+        // Don't share the default rule lists between loads
+        this.settings.conversionRules = this.settings.conversionRules.slice();
+        this.settings.domainRules = this.settings.domainRules.slice();
+        this.settings.urlFilters = this.settings.urlFilters.slice();
+
         log.setLogLevel(this.settings.logLevel);
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.saveData({
+            ...this.settings,
+            imageIndex: this.imageIndex.toJSON(),
+            failedDownloads: this.failures.toJSON()
+        });
     }
 
+    /**
+     * Saves the plugin data shortly after the last change, so bulk runs don't write it per image
+     */
+    private requestSave = debounce(() => this.saveSettings(), 2000, true);
+
     /**
      * Processes the currently active file
      */
@@ -167,81 +340,137 @@ export default class SaveImagesOfflinePlugin extends Plugin {
     }
 
     /**
-     * Processes all markdown files in the vault
+     * Processes all markdown and canvas files in the vault
+     * Files are processed in parallel; the download queue keeps the number of requests in check.
      */
     async processAllFiles() {
-        const notice = new Notice('Processing all files...', 0);
-
-        const files = this.app.vault.getMarkdownFiles();
+        const notes = this.app.vault.getFiles().filter(isProcessableFile);
+        const files = notes.filter(file => getNoteMode(this.app, this.settings, file).mode !== 'never');
+        const skippedNotes = notes.length - files.length;
+        const totals = createStats();
+        const controller = new AbortController();
+        const progress = new ProgressModal(this.app, files.length, totals, this.downloadQueue, () => controller.abort());
+        progress.open();
+
+        let nextFile = 0;
         let processed = 0;
-        let totalDownloaded = 0;
-        let totalFailed = 0;
+        const worker = async () => {
+            while (nextFile < files.length && !controller.signal.aborted) {
+                const file = files[nextFile++];
+                const result = await this.processFile(file, false, controller.signal);
+                processed++;
+
+                if (result) {
+                    addStats(totals, result);
+                }
+                progress.fileDone();
+            }
+        };
 
-        for (const file of files) {
-            const result = await this.processFile(file, false);
-            processed++;
+        const workerCount = Math.max(1, Math.min(this.settings.maxConcurrentDownloads, files.length));
+        await Promise.all(Array.from({ length: workerCount }, worker));
 
-            if (result) {
-                totalDownloaded += result.downloaded;
-                totalFailed += result.failed;
-            }
+        progress.close();
+        showNotice(
+            `${controller.signal.aborted ? 'Cancelled after' : 'Processed'} ${processed} files. ` +
+            (skippedNotes > 0 ? `Skipped ${skippedNotes} excluded notes. ` : '') +
+            `Downloaded ${totals.downloaded} images. Failed: ${totals.failed}.` +
+            describeProcessing(totals)
+        );
+    }
 
-            // Update the notice every 10 files
-            if (processed % 10 === 0) {
-                notice.setMessage(`Processing files: ${processed}/${files.length}`);
-            }
+    /**
+     * Processes a note after it was created, modified or opened, unless it is left to the commands
+     * @param file The note
+     */
+    processFileAutomatically(file: TFile) {
+        const { mode, reason } = getNoteMode(this.app, this.settings, file);
+        if (mode !== 'auto') {
+            log.debug(`Not processing ${file.path} automatically: ${reason}`);
+            return;
         }
-
-        notice.hide();
-        showNotice(`Processed ${processed} files. Downloaded ${totalDownloaded} images. Failed: ${totalFailed}`);
+        this.processFile(file, false);
     }
 
     /**
-     * Processes a single markdown file
+     * Processes a single markdown or canvas file
+     * Notes excluded by folder, tag or frontmatter flag are skipped.
      * @param file The file to process
      * @param showNotification Whether to show a notification when done
-     * @returns Stats about the processing
+     * @param signal Cancels the downloads that haven't finished yet
+     * @returns Stats about the processing, or null if the file was skipped or failed
      */
     async processFile(
         file: TFile,
-        showNotification: boolean = true
-    ): Promise<{ downloaded: number, failed: number } | null> {
-        if (!(file instanceof TFile) || file.extension !== 'md') {
+        showNotification: boolean = true,
+        signal?: AbortSignal
+    ): Promise<ProcessingStats | null> {
+        if (!isProcessableFile(file)) {
+            return null;
+        }
+        const processFileContent = file.extension === 'canvas' ? processCanvasFile : processMarkdownFile;
+        // Images of the frontmatter image keys are downloaded with the body's images, and written
+        // with processFrontMatter once the body has been saved
+        const processWithFrontmatter = async () => {
+            const result = await processFileContent(file, this, signal);
+            const frontmatterLinks = file.extension === 'md' ?
+                await localizeFrontmatterImages(file, result.originalContent, this, result.stats, signal) :
+                new Map<string, string>();
+            return Object.assign(result, { frontmatterLinks });
+        };
+
+        if (this.restoringPaths.has(file.path)) {
+            return null;
+        }
+
+        const { mode, reason } = getNoteMode(this.app, this.settings, file);
+        if (mode === 'never') {
+            log.debug(`Skipping ${file.path}: ${reason}`);
+            if (showNotification) {
+                showNotice(`Images in this note are not saved offline (${reason})`);
+            }
             return null;
         }
 
         try {
-            const { content, stats } = await processMarkdownFile(
-                file,
-                this.app.vault,
-                this.settings
-            );
+            let { content, originalContent, changed, stats, frontmatterLinks } = await processWithFrontmatter();
 
             // Only update the file if changes were made
-            if (stats.downloaded > 0) {
-                await this.app.vault.modify(file, content);
+            if (changed || frontmatterLinks.size > 0) {
+                // The note may have been edited while images were downloading; process the
+                // current content again instead of overwriting the edits. Images that were
+                // just saved are found in the image index, so this doesn't download them again.
+                if ((await this.app.vault.read(file)) !== originalContent) {
+                    log.info(`${file.path} changed while processing, processing it again`);
+                    ({ content, originalContent, changed, stats, frontmatterLinks } = await processWithFrontmatter());
+                }
+
+                if (changed) {
+                    await this.app.vault.modify(file, content);
+                }
+                await rewriteFrontmatterImages(this.app, file, getFrontmatterImageKeys(this.settings), frontmatterLinks);
+                await this.provenance.flush(file);
 
                 if (showNotification) {
                     showNotice(
                         `Downloaded ${stats.downloaded} images. ` +
                         `Failed: ${stats.failed}. ` +
-                        `Skipped: ${stats.skipped}.`
+                        `Skipped: ${describeSkipped(stats)}.` +
+                        describeProcessing(stats)
                     );
                 }
             } else if (showNotification && (stats.total > 0)) {
                 showNotice(
                     `No new images downloaded. ` +
                     `Failed: ${stats.failed}. ` +
-                    `Skipped: ${stats.skipped}.`
+                    `Skipped: ${describeSkipped(stats)}.`
                 );
             }
 
-            return {
-                downloaded: stats.downloaded,
-                failed: stats.failed
-            };
+            return stats;
         } catch (error) {
             log.error(`Error processing file ${file.path}: ${error.message}`);
+            this.provenance.discard(file);
 
             if (showNotification) {
                 showNotice(`Error processing file: ${error.message}`);
@@ -251,6 +480,127 @@ export default class SaveImagesOfflinePlugin extends Plugin {
         }
     }
 
+    /**
+     * Downloads failed images again, ignoring their backoff
+     * @param urls The failed URLs to retry
+     */
+    async retryFailedDownloads(urls: string[]) {
+        const notePaths = new Set<string>();
+
+        for (const url of urls) {
+            const record = this.failures.get(url);
+            if (!record) {
+                continue;
+            }
+
+            // Forget URLs that were removed from every note meanwhile
+            const stillUsedIn: string[] = [];
+            for (const notePath of record.notes) {
+                const note = this.app.vault.getAbstractFileByPath(notePath);
+                if (note instanceof TFile && (await this.app.vault.cachedRead(note)).includes(url)) {
+                    stillUsedIn.push(notePath);
+                }
+            }
+
+            if (stillUsedIn.length === 0) {
+                this.failures.remove(url);
+            } else {
+                stillUsedIn.forEach(notePath => notePaths.add(notePath));
+            }
+        }
+
+        this.failures.allowRetry(urls);
+
+        const totals = createStats();
+        for (const notePath of Array.from(notePaths)) {
+            const note = this.app.vault.getAbstractFileByPath(notePath);
+            const result = note instanceof TFile ? await this.processFile(note, false) : null;
+            if (result) {
+                addStats(totals, result);
+            }
+        }
+
+        showNotice(`Retried images in ${notePaths.size} files. Downloaded ${totals.downloaded} images. Failed: ${totals.failed}`);
+    }
+
+    /**
+     * Replaces a failed URL in the image embeds, canvas nodes and frontmatter image keys that
+     * use it, and downloads the new URL
+     * @param record The failure to fix
+     * @param newUrl The URL to use instead
+     */
+    async editFailedUrl(record: FailureRecord, newUrl: string) {
+        this.failures.remove(record.url);
+        const keys = getFrontmatterImageKeys(this.settings);
+
+        for (const notePath of record.notes) {
+            const note = this.app.vault.getAbstractFileByPath(notePath);
+            if (!(note instanceof TFile)) {
+                continue;
+            }
+
+            const content = await this.app.vault.read(note);
+            const newContent = note.extension === 'canvas' ?
+                replaceCanvasImageUrl(content, record.url, newUrl) :
+                replaceImageUrl(content, record.url, newUrl);
+            const inFrontmatter = note.extension === 'md' &&
+                getFrontmatterImageUrls(note, content, keys).indexOf(record.url) !== -1;
+            if (newContent !== content) {
+                await this.app.vault.modify(note, newContent);
+            }
+            if (inFrontmatter) {
+                await rewriteFrontmatterImages(this.app, note, keys, new Map([[record.url, newUrl]]));
+            }
+            if (newContent !== content || inFrontmatter) {
+                await this.processFile(note, true);
+            }
+        }
+    }
+
+    /**
+     * Restores the original image URLs in a set of notes
+     * @param files The notes to restore
+     */
+    async restoreFiles(files: TFile[]) {
+        const notice = new Notice('Restoring original image URLs...', 0);
+        files.forEach(file => this.restoringPaths.add(file.path));
+
+        try {
+            const result = await restoreOriginalUrls(
+                this.app,
+                this.imageIndex,
+                files,
+                getFrontmatterImageKeys(this.settings),
+                this.settings.deleteUnusedOnRestore
+            );
+
+            let message = `Restored ${result.restored} image links in ${result.notes} files. ` +
+                `Unknown source: ${result.unknown}. ` +
+                `Deleted: ${result.deleted}.`;
+            if (this.settings.autoDownloadImages && result.restored > 0) {
+                message += ' Auto-download is on: these images will be downloaded again when the notes change.';
+            }
+            showNotice(message, 8000);
+        } catch (error) {
+            log.error(`Error restoring original URLs: ${error.message}`);
+            showNotice(`Error restoring original URLs: ${error.message}`);
+        } finally {
+            notice.hide();
+            // Let the modify events of the restore pass before processing these notes again
+            window.setTimeout(() => files.forEach(file => this.restoringPaths.delete(file.path)), 1000);
+        }
+    }
+
+    /**
+     * Gets all markdown and canvas files in a folder and its subfolders
+     * @param folder The folder
+     * @returns The markdown and canvas files
+     */
+    getProcessableFilesInFolder(folder: TFolder): TFile[] {
+        const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+        return this.app.vault.getFiles().filter(file => isProcessableFile(file) && file.path.startsWith(prefix));
+    }
+
     /**
      * Handles paste events to process pasted content with images
      * @param evt The clipboard event
@@ -271,11 +621,16 @@ export default class SaveImagesOfflinePlugin extends Plugin {
             return;
         }
 
+        // Leave pastes into excluded and manual notes alone
+        if (view.file && getNoteMode(this.app, this.settings, view.file).mode !== 'auto') {
+            return;
+        }
+
         // Get the pasted text
         const pastedText = evt.clipboardData.getData('text');
 
         // Check if the pasted text contains image URLs
-        const hasImageUrls = IMAGE_URL_REGEX.test(pastedText) || HTML_IMG_REGEX.test(pastedText);
+        const hasImageUrls = containsRemoteImages(pastedText);
 
         // Check if the pasted text is a direct image URL
         const isDirectImageUrl = pastedText.trim().startsWith('http') && isLikelyImageUrl(pastedText.trim());
@@ -285,12 +640,7 @@ export default class SaveImagesOfflinePlugin extends Plugin {
             evt.preventDefault();
 
             // Initialize stats
-            const stats = {
-                total: 0,
-                downloaded: 0,
-                failed: 0,
-                skipped: 0
-            };
+            const stats = createStats();
 
             // Process the pasted content
             let processedText;
@@ -301,16 +651,14 @@ export default class SaveImagesOfflinePlugin extends Plugin {
                 processedText = await processContent(
                     wrappedText,
                     view.file || null,
-                    this.app.vault,
-                    this.settings,
+                    this,
                     stats
                 );
             } else {
                 processedText = await processContent(
                     pastedText,
                     view.file || null,
-                    this.app.vault,
-                    this.settings,
+                    this,
                     stats
                 );
             }
@@ -318,12 +666,19 @@ export default class SaveImagesOfflinePlugin extends Plugin {
             // Insert the processed text
             editor.replaceSelection(processedText);
 
+            // Frontmatter sources can only be written once the pasted links are saved
+            if (view.file && stats.downloaded > 0) {
+                await view.save();
+                await this.provenance.flush(view.file);
+            }
+
             // Show notification if images were processed
             if (stats.total > 0) {
                 showNotice(
                     `Downloaded ${stats.downloaded} images. ` +
                     `Failed: ${stats.failed}. ` +
-                    `Skipped: ${stats.skipped}.`
+                    `Skipped: ${describeSkipped(stats)}.` +
+                    describeProcessing(stats)
                 );
             }
         }
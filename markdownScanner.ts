@@ -0,0 +1,638 @@
+/**
+ * A region of a note, as offsets into its content
+ */
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * An inline markdown image: ![alt](url "title")
+ */
+export interface MarkdownImage extends TextRange {
+    kind: 'markdown';
+    altText: string;
+    url: string;
+    // The title with its delimiters, e.g. "Title", or '' if there is none
+    rawTitle: string;
+}
+
+/**
+ * An attribute of an HTML tag
+ */
+export interface HtmlAttribute {
+    name: string;
+    value: string;
+    // Offsets of the whole attribute into the tag
+    start: number;
+    end: number;
+}
+
+/**
+ * An HTML start tag
+ */
+export interface HtmlTag extends TextRange {
+    // The tag as written
+    raw: string;
+    attributes: HtmlAttribute[];
+}
+
+/**
+ * An HTML <img> tag
+ */
+export interface HtmlImage extends HtmlTag {
+    kind: 'html';
+}
+
+/**
+ * A <picture> element with its <source> tags and fallback <img>
+ */
+export interface PictureImage extends TextRange {
+    kind: 'picture';
+    sources: HtmlTag[];
+    image: HtmlTag;
+}
+
+/**
+ * A link reference definition used by image references: [ref]: https://... "title"
+ * The range covers only the destination, so rewriting it leaves the label and title alone.
+ */
+export interface ReferenceDefinition extends TextRange {
+    kind: 'definition';
+    // Normalized label
+    label: string;
+    url: string;
+    // Alt text of the first image using the definition
+    altText: string;
+}
+
+export type ImageEmbed = MarkdownImage | HtmlImage | PictureImage | ReferenceDefinition;
+
+/**
+ * Finds the image embeds of a note, skipping code, math, comments and frontmatter
+ * Reference images (![alt][ref], ![alt][] and ![alt]) are returned as the definitions they
+ * use, once per definition.
+ * @param content The note content
+ * @returns The embeds, in the order they appear
+ */
+export function findImageEmbeds(content: string): ImageEmbed[] {
+    const excluded = findExcludedRanges(content);
+    const definitions = findReferenceDefinitions(content, excluded);
+    const usedDefinitions: ReferenceDefinition[] = [];
+    const embeds: ImageEmbed[] = [];
+    let range = 0;
+
+    for (let i = 0; i < content.length; i++) {
+        while (range < excluded.length && excluded[range].end <= i) {
+            range++;
+        }
+        if (range < excluded.length && excluded[range].start <= i) {
+            i = excluded[range].end - 1;
+            continue;
+        }
+
+        const char = content[i];
+        if (char === '\\') {
+            // Escaped character
+            i++;
+        } else if (char === '!' && content[i + 1] === '[') {
+            const image = parseMarkdownImage(content, i);
+            if (image) {
+                embeds.push(image);
+                i = image.end - 1;
+                continue;
+            }
+
+            const reference = parseImageReference(content, i);
+            const definition = reference ? definitions.get(reference.label) : undefined;
+            if (reference && definition) {
+                if (usedDefinitions.indexOf(definition) === -1) {
+                    usedDefinitions.push(Object.assign(definition, { altText: reference.altText }));
+                }
+                i = reference.end - 1;
+            }
+        } else if (char === '<' && /^<img[\s/>]/i.test(content.substr(i, 5))) {
+            const tag = parseHtmlTag(content, i, 4);
+            if (tag) {
+                embeds.push(Object.assign({ kind: 'html' as 'html' }, tag));
+                i = tag.end - 1;
+            }
+        } else if (char === '<' && /^<picture[\s>]/i.test(content.substr(i, 9))) {
+            const picture = parsePicture(content, i);
+            if (picture) {
+                embeds.push(picture);
+                i = picture.end - 1;
+            }
+        }
+    }
+
+    return embeds.concat(usedDefinitions).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Gets an attribute of an HTML tag
+ * @param tag The tag
+ * @param name The attribute name, in lower case
+ * @returns The attribute, or undefined if the tag doesn't have it
+ */
+export function getHtmlAttribute(tag: HtmlTag, name: string): HtmlAttribute | undefined {
+    return tag.attributes.find(attribute => attribute.name === name);
+}
+
+/**
+ * Finds the regions of a note whose text is not rendered as markdown
+ * Covers frontmatter, fenced and indented code blocks, inline code, math blocks, inline math and comments.
+ * @param content The note content
+ * @returns The regions, sorted and not overlapping
+ */
+export function findExcludedRanges(content: string): TextRange[] {
+    const ranges: TextRange[] = [];
+    const blocks = findBlockRanges(content);
+    let position = 0;
+
+    for (const block of blocks) {
+        findInlineRanges(content, position, block.start, ranges);
+        ranges.push(block);
+        position = block.end;
+    }
+    findInlineRanges(content, position, content.length, ranges);
+
+    return ranges;
+}
+
+/**
+ * Finds the frontmatter, fenced code blocks and indented code blocks
+ * @param content The note content
+ * @returns The regions, sorted
+ */
+function findBlockRanges(content: string): TextRange[] {
+    const ranges: TextRange[] = [];
+    const lines = content.split('\n');
+    let offset = 0;
+    let fence: { start: number, char: string, length: number } | null = null;
+    let indentedCode: TextRange | null = null;
+    // Indented code can't interrupt a paragraph, and indented lines in lists continue the list item
+    let previousBlank = true;
+    let inList = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const lineEnd = offset + line.length + 1;
+
+        if (i === 0 && line.trimRight() === '---') {
+            // Frontmatter runs until the next --- line
+            let end = lineEnd;
+            for (let j = 1; j < lines.length; j++) {
+                end += lines[j].length + 1;
+                if (lines[j].trimRight() === '---') {
+                    ranges.push({ start: 0, end: Math.min(end, content.length) });
+                    offset = Math.min(end, content.length);
+                    i = j;
+                    break;
+                }
+            }
+            if (i !== 0) {
+                continue;
+            }
+        }
+
+        // Fences may be indented, or inside block quotes
+        const marker = /^[ \t]*(?:>[ \t]*)*(`{3,}|~{3,})/.exec(line);
+        const blank = line.trim() === '';
+        if (fence) {
+            if (marker && marker[1][0] === fence.char && marker[1].length >= fence.length &&
+                line.slice(marker[0].length).trim() === '') {
+                ranges.push({ start: fence.start, end: Math.min(lineEnd, content.length) });
+                fence = null;
+            }
+        } else if (!blank && /^( {4}|\t)/.test(line) && (indentedCode || (previousBlank && !inList))) {
+            // Indented code runs until the next line that isn't indented; blank lines don't end it
+            if (indentedCode) {
+                indentedCode.end = Math.min(lineEnd, content.length);
+            } else {
+                indentedCode = { start: offset, end: Math.min(lineEnd, content.length) };
+            }
+        } else if (!blank) {
+            if (indentedCode) {
+                ranges.push(indentedCode);
+                indentedCode = null;
+            }
+            if (/^[ \t]*(?:[-*+]|\d+[.)])(?:[ \t]|$)/.test(line)) {
+                inList = true;
+            } else if (!/^[ \t]/.test(line)) {
+                inList = false;
+            }
+            if (marker && !(marker[1][0] === '`' && line.slice(marker[0].length).includes('`'))) {
+                fence = { start: offset, char: marker[1][0], length: marker[1].length };
+            }
+        }
+
+        previousBlank = blank;
+        offset = lineEnd;
+    }
+
+    if (fence) {
+        // An unclosed fence runs to the end of the note
+        ranges.push({ start: fence.start, end: content.length });
+    }
+    if (indentedCode) {
+        ranges.push(indentedCode);
+    }
+
+    return ranges;
+}
+
+/**
+ * Finds inline code, math and comments between two offsets
+ * @param content The note content
+ * @param from Start offset
+ * @param to End offset
+ * @param ranges Array the regions are added to
+ */
+function findInlineRanges(content: string, from: number, to: number, ranges: TextRange[]): void {
+    for (let i = from; i < to; i++) {
+        const char = content[i];
+        let end = -1;
+
+        if (char === '\\') {
+            i++;
+            continue;
+        } else if (char === '`') {
+            let length = 1;
+            while (content[i + length] === '`') {
+                length++;
+            }
+            end = findClosingBackticks(content, i + length, to, length);
+            if (end === -1) {
+                // Unmatched backticks are literal text
+                i += length - 1;
+                continue;
+            }
+        } else if (char === ']' || (char === '<' && !content.startsWith('<!--', i))) {
+            // $ and backticks in link destinations and autolinks are part of the URL
+            const urlEnd = findUrlEnd(content, i, to);
+            if (urlEnd !== -1) {
+                i = urlEnd - 1;
+            }
+            continue;
+        } else if (content.startsWith('$$', i)) {
+            const close = content.indexOf('$$', i + 2);
+            end = close === -1 || close >= to ? to : close + 2;
+        } else if (char === '$') {
+            end = findClosingDollar(content, i, to);
+        } else if (content.startsWith('<!--', i)) {
+            const close = content.indexOf('-->', i + 4);
+            end = close === -1 || close >= to ? to : close + 3;
+        } else if (content.startsWith('%%', i)) {
+            const close = content.indexOf('%%', i + 2);
+            end = close === -1 || close >= to ? to : close + 2;
+        }
+
+        if (end !== -1) {
+            ranges.push({ start: i, end });
+            i = end - 1;
+        }
+    }
+}
+
+/**
+ * Finds the end of an inline code span
+ * @param content The note content
+ * @param from Offset just after the opening backticks
+ * @param to Offset the span must end before
+ * @param length Number of opening backticks
+ * @returns Offset just after the closing backticks, or -1 if the span isn't closed
+ */
+function findClosingBackticks(content: string, from: number, to: number, length: number): number {
+    for (let i = from; i < to; i++) {
+        if (content[i] === '\n' && content[i + 1] === '\n') {
+            // Code spans don't cross paragraphs
+            return -1;
+        }
+        if (content[i] === '`') {
+            let run = 1;
+            while (content[i + run] === '`') {
+                run++;
+            }
+            if (run === length) {
+                return i + run;
+            }
+            i += run - 1;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Finds the end of inline math
+ * Like Obsidian, $ only opens math when followed by a non-space, and only closes it when
+ * preceded by a non-space and not followed by a digit, so prices such as $5 aren't math.
+ * @param content The note content
+ * @param start Offset of the opening $
+ * @param to Offset the math must end before
+ * @returns Offset just after the closing $, or -1 if this $ doesn't start math
+ */
+function findClosingDollar(content: string, start: number, to: number): number {
+    if (!content[start + 1] || /\s/.test(content[start + 1])) {
+        return -1;
+    }
+    for (let i = start + 1; i < to && content[i] !== '\n'; i++) {
+        const urlEnd = findUrlEnd(content, i, to);
+        if (content[i] === '\\') {
+            i++;
+        } else if (urlEnd !== -1) {
+            i = urlEnd - 1;
+        } else if (content[i] === '$') {
+            if (!/\s/.test(content[i - 1]) && !/[0-9]/.test(content[i + 1] || '')) {
+                return i + 1;
+            }
+        }
+    }
+    return -1;
+}
+
+/**
+ * Finds the end of a link destination, e.g. "(https://example.com/a$b.png)" after "]", or of an autolink
+ * @param content The note content
+ * @param start Offset of the ] or the <
+ * @param to Offset the URL must end before
+ * @returns Offset just after the destination or autolink, or -1 if there is none at the offset
+ */
+function findUrlEnd(content: string, start: number, to: number): number {
+    if (content[start] === '<') {
+        const autolink = /^<[a-z][a-z0-9+.-]*:[^\s<>]*>/i.exec(content.slice(start, Math.min(to, start + 2048)));
+        return autolink ? start + autolink[0].length : -1;
+    }
+    if (content[start] !== ']' || content[start + 1] !== '(') {
+        return -1;
+    }
+
+    let parens = 0;
+    for (let i = start + 1; i < to && content[i] !== '\n'; i++) {
+        if (content[i] === '\\') {
+            i++;
+        } else if (content[i] === '(') {
+            parens++;
+        } else if (content[i] === ')' && --parens === 0) {
+            return i + 1;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Parses an inline markdown image
+ * Handles nested brackets in the alt text, <destinations with spaces>, parentheses in URLs
+ * and "titles", 'titles' or (titles).
+ * @param content The note content
+ * @param start Offset of the !
+ * @returns The image, or null if there is no complete image at the offset
+ */
+function parseMarkdownImage(content: string, start: number): MarkdownImage | null {
+    let i = findClosingBracket(content, start + 1);
+    if (i === -1 || content[i] !== '(') {
+        return null;
+    }
+    const altText = content.slice(start + 2, i - 1);
+
+    i = skipSpaces(content, i + 1);
+
+    // Destination
+    let url: string;
+    if (content[i] === '<') {
+        const close = content.indexOf('>', i);
+        if (close === -1 || /[\n<]/.test(content.slice(i + 1, close))) {
+            return null;
+        }
+        url = content.slice(i + 1, close);
+        i = close + 1;
+    } else {
+        const urlStart = i;
+        let parens = 0;
+        for (; i < content.length && !/\s/.test(content[i]); i++) {
+            if (content[i] === '\\') {
+                i++;
+            } else if (content[i] === '(') {
+                parens++;
+            } else if (content[i] === ')') {
+                if (parens === 0) {
+                    break;
+                }
+                parens--;
+            }
+        }
+        url = content.slice(urlStart, i);
+    }
+
+    // Optional title
+    let rawTitle = '';
+    const afterUrl = skipSpaces(content, i);
+    const opener = content[afterUrl];
+    if (afterUrl > i && (opener === '"' || opener === '\'' || opener === '(')) {
+        const closer = opener === '(' ? ')' : opener;
+        let j = afterUrl + 1;
+        for (; j < content.length && content[j] !== closer; j++) {
+            if (content[j] === '\\') {
+                j++;
+            }
+        }
+        if (j >= content.length) {
+            return null;
+        }
+        rawTitle = content.slice(afterUrl, j + 1);
+        i = j + 1;
+    }
+
+    i = skipSpaces(content, i);
+    if (content[i] !== ')' || !url) {
+        return null;
+    }
+
+    return { kind: 'markdown', start, end: i + 1, altText, url, rawTitle };
+}
+
+/**
+ * Parses a reference image: ![alt][ref], ![alt][] or ![alt]
+ * @param content The note content
+ * @param start Offset of the !
+ * @returns The normalized label, the alt text and the end of the image, or null if there is none
+ */
+function parseImageReference(content: string, start: number): { label: string, altText: string, end: number } | null {
+    const altEnd = findClosingBracket(content, start + 1);
+    if (altEnd === -1) {
+        return null;
+    }
+    const altText = content.slice(start + 2, altEnd - 1);
+
+    if (content[altEnd] === '[') {
+        const labelEnd = findClosingBracket(content, altEnd);
+        if (labelEnd === -1) {
+            return null;
+        }
+        const label = content.slice(altEnd + 1, labelEnd - 1);
+        // ![alt][] uses the alt text as the label
+        return { label: normalizeLabel(label || altText), altText, end: labelEnd };
+    }
+    return { label: normalizeLabel(altText), altText, end: altEnd };
+}
+
+/**
+ * Finds the link reference definitions of a note
+ * Only single-line definitions are recognized. The first definition of a label wins.
+ * @param content The note content
+ * @param excluded Regions that aren't markdown
+ * @returns The definitions by normalized label
+ */
+function findReferenceDefinitions(content: string, excluded: TextRange[]): Map<string, ReferenceDefinition> {
+    const definitions = new Map<string, ReferenceDefinition>();
+    const definitionRegex = /^( {0,3}\[((?:[^\[\]\\]|\\.)+)\]:[ \t]*)(<[^<>\n]*>|\S+)(?:[ \t]+(?:"[^"\n]*"|'[^'\n]*'|\([^()\n]*\)))?[ \t]*\r?$/gm;
+    let match: RegExpExecArray | null;
+
+    while ((match = definitionRegex.exec(content))) {
+        const offset = match.index;
+        const label = normalizeLabel(match[2]);
+        if (!label || definitions.has(label) ||
+            excluded.some(range => range.start <= offset && offset < range.end)) {
+            continue;
+        }
+
+        const destination = match[3];
+        const start = offset + match[1].length;
+        definitions.set(label, {
+            kind: 'definition',
+            start,
+            end: start + destination.length,
+            label,
+            url: destination.startsWith('<') ? destination.slice(1, -1) : destination,
+            altText: ''
+        });
+    }
+
+    return definitions;
+}
+
+/**
+ * Finds the end of link text or a label
+ * @param content The note content
+ * @param start Offset of the [
+ * @returns Offset just after the matching ], or -1 if there is none in the paragraph
+ */
+function findClosingBracket(content: string, start: number): number {
+    let depth = 1;
+    for (let i = start + 1; i < content.length; i++) {
+        if (content[i] === '\\') {
+            i++;
+        } else if (content[i] === '[') {
+            depth++;
+        } else if (content[i] === ']') {
+            depth--;
+            if (depth === 0) {
+                return i + 1;
+            }
+        } else if (content[i] === '\n' && content[i + 1] === '\n') {
+            return -1;
+        }
+    }
+    return -1;
+}
+
+function normalizeLabel(label: string): string {
+    // Labels match case-insensitively, with runs of whitespace collapsed
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Parses an HTML start tag, which may span several lines
+ * @param content The note content
+ * @param start Offset of the <
+ * @param nameLength Length of the < and the tag name
+ * @returns The tag, or null if it isn't closed
+ */
+function parseHtmlTag(content: string, start: number, nameLength: number): HtmlTag | null {
+    const attributes: HtmlAttribute[] = [];
+    const attributeRegex = /\s*([^\s=\/>"']+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?/y;
+    let i = start + nameLength;
+
+    while (i < content.length) {
+        if (content[i] === '>') {
+            const raw = content.slice(start, i + 1);
+            return { start, end: i + 1, raw, attributes };
+        }
+        if (content[i] === '/' || /\s/.test(content[i])) {
+            if (content[i] === '\n' && content[i + 1] === '\n') {
+                return null;
+            }
+            i++;
+            continue;
+        }
+
+        attributeRegex.lastIndex = i;
+        const match = attributeRegex.exec(content);
+        if (!match) {
+            return null;
+        }
+        const value = match[2] || '';
+        attributes.push({
+            name: match[1].toLowerCase(),
+            value: /^["']/.test(value) ? value.slice(1, -1) : value,
+            start: i - start,
+            end: attributeRegex.lastIndex - start
+        });
+        i = attributeRegex.lastIndex;
+    }
+
+    return null;
+}
+
+/**
+ * Parses a <picture> element
+ * @param content The note content
+ * @param start Offset of the <
+ * @returns The element, or null if it isn't closed or has no <img>
+ */
+function parsePicture(content: string, start: number): PictureImage | null {
+    const closeRegex = /<\/picture\s*>/gi;
+    closeRegex.lastIndex = start;
+    const close = closeRegex.exec(content);
+    if (!close) {
+        return null;
+    }
+
+    const sources: HtmlTag[] = [];
+    let image: HtmlTag | null = null;
+    const tagRegex = /<(source|img)[\s/>]/gi;
+    tagRegex.lastIndex = start;
+    let match: RegExpExecArray | null;
+    while ((match = tagRegex.exec(content)) && match.index < close.index) {
+        const tag = parseHtmlTag(content, match.index, match[1].length + 1);
+        if (!tag) {
+            return null;
+        }
+        if (match[1].toLowerCase() === 'img') {
+            image = image || tag;
+        } else {
+            sources.push(tag);
+        }
+        tagRegex.lastIndex = tag.end;
+    }
+
+    if (!image) {
+        return null;
+    }
+    return { kind: 'picture', start, end: close.index + close[0].length, sources, image };
+}
+
+function skipSpaces(content: string, i: number): number {
+    // At most one line break, as in CommonMark link destinations and titles
+    let newline = false;
+    while (i < content.length && /\s/.test(content[i])) {
+        if (content[i] === '\n') {
+            if (newline) {
+                break;
+            }
+            newline = true;
+        }
+        i++;
+    }
+    return i;
+}
@@ -0,0 +1,191 @@
+import { ImageType } from './imageTypes';
+import { log } from './logger';
+
+// JPEG APP1 segments carry EXIF and XMP, APP13 carries Photoshop IPTC data
+const JPEG_APP1 = 0xE1;
+const JPEG_APP13 = 0xED;
+const JPEG_SOS = 0xDA;
+const EXIF_HEADER = 'Exif\0\0';
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// PNG chunks with text or EXIF data
+const PNG_METADATA_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'eXIf'];
+
+/**
+ * Removes privacy-sensitive metadata from an image without re-encoding its pixels
+ * JPEG loses its EXIF, XMP and IPTC segments; only the EXIF orientation is kept, so photos
+ * stay upright. PNG loses its text and EXIF chunks. Other formats are returned unchanged.
+ * @param data The image data
+ * @param type The type of the image
+ * @returns The image data without metadata
+ */
+export function stripMetadata(data: ArrayBuffer, type: ImageType): ArrayBuffer {
+    try {
+        if (type.extension === 'jpg') {
+            return stripJpegMetadata(new Uint8Array(data));
+        }
+        if (type.extension === 'png') {
+            return stripPngMetadata(new Uint8Array(data));
+        }
+    } catch (error) {
+        log.warn(`Could not strip metadata from ${type.extension} image, keeping it as is: ${error.message}`);
+    }
+    return data;
+}
+
+/**
+ * Removes the APP1 and APP13 segments of a JPEG
+ * @param bytes The JPEG data
+ * @returns The JPEG data without EXIF, XMP and IPTC, plus a minimal EXIF segment if the image is rotated
+ */
+function stripJpegMetadata(bytes: Uint8Array): ArrayBuffer {
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let orientation = 1;
+    let pos = 2;
+
+    while (pos + 4 <= bytes.length) {
+        if (bytes[pos] !== 0xFF) {
+            throw new Error(`Invalid JPEG marker at offset ${pos}`);
+        }
+        const marker = bytes[pos + 1];
+        if (marker === 0xFF) {
+            // Fill byte before a marker
+            pos++;
+            continue;
+        }
+        if (marker === JPEG_SOS) {
+            // Compressed image data follows; nothing after it is metadata we strip
+            break;
+        }
+        if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) {
+            parts.push(bytes.subarray(pos, pos + 2));
+            pos += 2;
+            continue;
+        }
+
+        const end = pos + 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3]);
+        if (end > bytes.length) {
+            throw new Error('Truncated JPEG segment');
+        }
+
+        if (marker === JPEG_APP1 || marker === JPEG_APP13) {
+            if (marker === JPEG_APP1 && readAscii(bytes, pos + 4, 6) === EXIF_HEADER) {
+                orientation = readExifOrientation(bytes.subarray(pos + 10, end));
+            }
+        } else {
+            parts.push(bytes.subarray(pos, end));
+        }
+        pos = end;
+    }
+    parts.push(bytes.subarray(pos));
+
+    if (orientation !== 1) {
+        // Right after SOI and APP0, where viewers expect EXIF
+        const insertAt = parts.length > 1 && parts[1][1] === 0xE0 ? 2 : 1;
+        parts.splice(insertAt, 0, createOrientationSegment(orientation));
+    }
+
+    return concat(parts);
+}
+
+/**
+ * Reads the orientation tag from the first IFD of EXIF data
+ * @param tiff The TIFF structure following the EXIF header
+ * @returns The orientation (1-8), 1 if it is missing
+ */
+function readExifOrientation(tiff: Uint8Array): number {
+    if (tiff.length < 8) {
+        return 1;
+    }
+    const littleEndian = tiff[0] === 0x49;
+    const read16 = (offset: number) => littleEndian ?
+        tiff[offset] | (tiff[offset + 1] << 8) :
+        (tiff[offset] << 8) | tiff[offset + 1];
+    const read32 = (offset: number) => littleEndian ?
+        (read16(offset) | (read16(offset + 2) << 16)) >>> 0 :
+        ((read16(offset) << 16) | read16(offset + 2)) >>> 0;
+
+    const ifd = read32(4);
+    if (ifd + 2 > tiff.length) {
+        return 1;
+    }
+    const count = read16(ifd);
+    for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > tiff.length) {
+            break;
+        }
+        if (read16(entry) === EXIF_ORIENTATION_TAG) {
+            const orientation = read16(entry + 8);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+    }
+    return 1;
+}
+
+/**
+ * Creates an APP1 segment with EXIF data holding only the orientation
+ * @param orientation The orientation (2-8)
+ * @returns The segment, marker included
+ */
+function createOrientationSegment(orientation: number): Uint8Array {
+    const segment = new Uint8Array(36);
+    segment.set([0xFF, JPEG_APP1, 0x00, 34]);
+    for (let i = 0; i < EXIF_HEADER.length; i++) {
+        segment[4 + i] = EXIF_HEADER.charCodeAt(i);
+    }
+    segment.set([
+        // Big-endian TIFF header, first IFD at offset 8
+        0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08,
+        // One entry: orientation, SHORT, count 1
+        0x00, 0x01,
+        0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+        // No next IFD
+        0x00, 0x00, 0x00, 0x00
+    ], 10);
+    return segment;
+}
+
+/**
+ * Removes the text and EXIF chunks of a PNG
+ * @param bytes The PNG data
+ * @returns The PNG data without metadata chunks
+ */
+function stripPngMetadata(bytes: Uint8Array): ArrayBuffer {
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    let pos = 8;
+
+    while (pos + 12 <= bytes.length) {
+        const length = ((bytes[pos] << 24) | (bytes[pos + 1] << 16) | (bytes[pos + 2] << 8) | bytes[pos + 3]) >>> 0;
+        const end = pos + 12 + length;
+        if (end > bytes.length) {
+            throw new Error('Truncated PNG chunk');
+        }
+
+        if (!PNG_METADATA_CHUNKS.includes(readAscii(bytes, pos + 4, 4))) {
+            parts.push(bytes.subarray(pos, end));
+        }
+        pos = end;
+    }
+    parts.push(bytes.subarray(pos));
+
+    return concat(parts);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+    let text = '';
+    for (let i = offset; i < offset + length && i < bytes.length; i++) {
+        text += String.fromCharCode(bytes[i]);
+    }
+    return text;
+}
+
+function concat(parts: Uint8Array[]): ArrayBuffer {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result.buffer;
+}
@@ -0,0 +1,90 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { SaveImagesOfflineSettings } from './settings';
+
+/**
+ * Frontmatter key that overrides the folder and tag settings for a note
+ */
+export const NOTE_FLAG_KEY = 'save-images-offline';
+
+/**
+ * How a note is processed
+ * - auto: images are saved automatically and by the commands
+ * - manual: images are only saved by the commands
+ * - never: images are never saved
+ */
+export type NoteMode = 'auto' | 'manual' | 'never';
+
+/**
+ * Decides how a note is processed
+ * The frontmatter flag wins: `false` never processes the note, `true` always does, and
+ * `manual` leaves it to the commands. Without a flag, the folder and tag settings decide.
+ * @param app The Obsidian app
+ * @param settings The plugin settings
+ * @param file The note
+ * @returns The mode, and why the note isn't processed automatically
+ */
+export function getNoteMode(app: App, settings: SaveImagesOfflineSettings, file: TFile): { mode: NoteMode, reason?: string } {
+    const cache = app.metadataCache.getFileCache(file);
+
+    const flag = cache && cache.frontmatter ? cache.frontmatter[NOTE_FLAG_KEY] : undefined;
+    const normalizedFlag = typeof flag === 'string' ? flag.trim().toLowerCase() : flag;
+    if (normalizedFlag === false || normalizedFlag === 'false') {
+        return { mode: 'never', reason: `${NOTE_FLAG_KEY}: false` };
+    }
+    if (normalizedFlag === 'manual') {
+        return { mode: 'manual', reason: `${NOTE_FLAG_KEY}: manual` };
+    }
+    if (normalizedFlag === true || normalizedFlag === 'true') {
+        return { mode: 'auto' };
+    }
+
+    const included = parseList(settings.includedFolders, '\n');
+    if (included.length > 0 && !included.some(glob => matchesPathGlob(file.path, glob))) {
+        return { mode: 'never', reason: 'not in an included folder' };
+    }
+
+    const excludedFolder = parseList(settings.excludedFolders, '\n').find(glob => matchesPathGlob(file.path, glob));
+    if (excludedFolder) {
+        return { mode: 'never', reason: `excluded folder ${excludedFolder}` };
+    }
+
+    const excludedTags = parseList(settings.excludedTags, ',').map(tag => tag.replace(/^#/, '').toLowerCase());
+    if (excludedTags.length > 0 && cache) {
+        const noteTags = (getAllTags(cache) || []).map(tag => tag.replace(/^#/, '').toLowerCase());
+        const excludedTag = excludedTags.find(excluded =>
+            noteTags.some(tag => tag === excluded || tag.startsWith(`${excluded}/`)));
+        if (excludedTag) {
+            return { mode: 'never', reason: `excluded tag #${excludedTag}` };
+        }
+    }
+
+    return { mode: 'auto' };
+}
+
+/**
+ * Checks whether a path matches a folder glob
+ * "*" matches within a path segment and "**" across segments. A glob also matches everything
+ * inside the folders it matches, so "Templates" matches "Templates/Daily.md".
+ * @param path The vault path
+ * @param glob The glob
+ * @returns True if the path matches
+ */
+export function matchesPathGlob(path: string, glob: string): boolean {
+    const pattern = glob.trim().replace(/^\/+|\/+$/g, '');
+    if (!pattern) {
+        return false;
+    }
+
+    const regex = pattern
+        .split('**')
+        .map(part => part
+            .split('*')
+            .map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('[^/]*'))
+        .join('.*');
+    return new RegExp(`^${regex}(/.*)?$`, 'i').test(path);
+}
+
+function parseList(value: string, separator: string): string[] {
+    return value.split(separator).map(item => item.trim()).filter(item => item.length > 0);
+}
@@ -0,0 +1,106 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { removeManifestSource } from './provenance';
+import { formatBytes, showNotice } from './utils';
+import { log } from './logger';
+
+/**
+ * Lists orphaned downloaded images so the user can pick which ones to trash
+ */
+export class OrphanedImagesModal extends Modal {
+    private selected: Set<TFile>;
+
+    constructor(app: App, private files: TFile[]) {
+        super(app);
+        this.selected = new Set(files);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('save-images-offline-orphans');
+
+        this.titleEl.setText('Orphaned downloaded images');
+
+        if (this.files.length === 0) {
+            contentEl.createEl('p', { text: 'No orphaned images found.' });
+            return;
+        }
+
+        const totalSize = this.files.reduce((sum, file) => sum + file.stat.size, 0);
+        contentEl.createEl('p', {
+            text: `${this.files.length} downloaded images (${formatBytes(totalSize)}) are not referenced by any note or canvas.`
+        });
+
+        const checkboxes: HTMLInputElement[] = [];
+        const listEl = contentEl.createDiv('save-images-offline-orphans-list');
+        for (const file of this.files) {
+            const rowEl = listEl.createEl('label', { cls: 'save-images-offline-orphans-row' });
+
+            const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = true;
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.selected.add(file);
+                } else {
+                    this.selected.delete(file);
+                }
+            });
+            checkboxes.push(checkbox);
+
+            rowEl.createEl('img', {
+                cls: 'save-images-offline-orphans-thumbnail',
+                attr: { src: this.app.vault.getResourcePath(file), loading: 'lazy' }
+            });
+
+            const infoEl = rowEl.createDiv('save-images-offline-orphans-info');
+            infoEl.createDiv({ text: file.path });
+            infoEl.createDiv({ text: formatBytes(file.stat.size), cls: 'setting-item-description' });
+        }
+
+        const setAll = (checked: boolean) => {
+            checkboxes.forEach(checkbox => checkbox.checked = checked);
+            this.selected = checked ? new Set(this.files) : new Set();
+        };
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Select all')
+                .onClick(() => setAll(true)))
+            .addButton(button => button
+                .setButtonText('Select none')
+                .onClick(() => setAll(false)))
+            .addButton(button => button
+                .setButtonText('Move to Obsidian trash')
+                .onClick(() => this.trashSelected(false)))
+            .addButton(button => button
+                .setButtonText('Move to system trash')
+                .setWarning()
+                .onClick(() => this.trashSelected(true)));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Moves the selected images to the trash
+     * @param useSystemTrash Whether to use the system trash instead of the vault's .trash folder
+     */
+    private async trashSelected(useSystemTrash: boolean) {
+        const files = Array.from(this.selected);
+        let trashed = 0;
+
+        for (const file of files) {
+            try {
+                await removeManifestSource(this.app.vault, file.path);
+                await this.app.vault.trash(file, useSystemTrash);
+                trashed++;
+            } catch (error) {
+                log.error(`Failed to trash ${file.path}: ${error.message}`);
+            }
+        }
+
+        showNotice(`Moved ${trashed} orphaned images to the trash.`);
+        this.close();
+    }
+}
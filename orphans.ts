@@ -0,0 +1,187 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { ImageIndex } from './imageIndex';
+import { getLocalImageSource } from './htmlImages';
+import { findImageEmbeds } from './markdownScanner';
+import { resolveLinkpath } from './links';
+import { log } from './logger';
+
+// Link targets of wikilinks and markdown links in free text
+const WIKILINK_TARGET_REGEX = /\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g;
+const MARKDOWN_LINK_TARGET_REGEX = /\]\((<[^>]+>|[^()\s]+)\)/g;
+
+/**
+ * Finds downloaded images that nothing in the vault references anymore
+ * Notes (including frontmatter), canvases and their text nodes are taken into account.
+ * @param app The Obsidian app
+ * @param imageIndex The image index, which knows what the plugin downloaded
+ * @returns The orphaned images, sorted by path
+ */
+export async function findOrphanedImages(app: App, imageIndex: ImageIndex): Promise<TFile[]> {
+    const referenced = await collectReferencedPaths(app);
+    const orphans: TFile[] = [];
+
+    for (const localPath of imageIndex.getLocalPaths()) {
+        const file = app.vault.getAbstractFileByPath(localPath);
+        if (file instanceof TFile && !referenced.has(file.path)) {
+            orphans.push(file);
+        }
+    }
+
+    return orphans.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Collects the paths of every file referenced from notes and canvases
+ * @param app The Obsidian app
+ * @param excludedPaths Notes and canvases whose references are ignored
+ * @returns The referenced vault paths
+ */
+export async function collectReferencedPaths(
+    app: App,
+    excludedPaths: Set<string> = new Set()
+): Promise<Set<string>> {
+    const referenced = new Set<string>();
+
+    // Links and embeds in notes, as resolved by the metadata cache
+    const resolvedLinks = app.metadataCache.resolvedLinks;
+    for (const sourcePath of Object.keys(resolvedLinks)) {
+        if (excludedPaths.has(sourcePath)) {
+            continue;
+        }
+        for (const targetPath of Object.keys(resolvedLinks[sourcePath])) {
+            referenced.add(targetPath);
+        }
+    }
+
+    // Plain paths in frontmatter values, e.g. "cover: attachments/image.png", <img> tags and reference definitions
+    for (const file of app.vault.getMarkdownFiles()) {
+        if (excludedPaths.has(file.path)) {
+            continue;
+        }
+        const cache = app.metadataCache.getFileCache(file);
+        if (cache && cache.frontmatter) {
+            for (const value of collectStrings(cache.frontmatter)) {
+                addResolved(app, referenced, value.replace(/^!?\[\[|\]\]$/g, ''), file.path);
+            }
+        }
+        for (const linkpath of findUncachedImageLinks(await app.vault.cachedRead(file))) {
+            addResolved(app, referenced, linkpath, file.path);
+        }
+    }
+
+    // Canvas file nodes and links in canvas text nodes
+    for (const file of app.vault.getFiles().filter(f => f.extension === 'canvas')) {
+        if (excludedPaths.has(file.path)) {
+            continue;
+        }
+        try {
+            const canvas = JSON.parse(await app.vault.cachedRead(file));
+            for (const node of (canvas && canvas.nodes) || []) {
+                if (node.type === 'file' && typeof node.file === 'string') {
+                    referenced.add(node.file);
+                } else if (node.type === 'text' && typeof node.text === 'string') {
+                    for (const linkpath of extractLinkpaths(node.text).concat(findUncachedImageLinks(node.text))) {
+                        addResolved(app, referenced, linkpath, file.path);
+                    }
+                }
+            }
+        } catch (error) {
+            log.warn(`Could not read canvas ${file.path}: ${error.message}`);
+        }
+    }
+
+    return referenced;
+}
+
+/**
+ * Resolves a link target and adds it to the referenced set
+ * @param app The Obsidian app
+ * @param referenced The set to add to
+ * @param linkpath The link target
+ * @param sourcePath Path of the file containing the link
+ */
+function addResolved(app: App, referenced: Set<string>, linkpath: string, sourcePath: string): void {
+    const target = linkpath.trim();
+    if (!target || /^[a-z][a-z0-9+.-]*:/i.test(target)) {
+        return;
+    }
+
+    // Vault-absolute paths are accepted too, as frontmatter often holds them
+    const resolved = resolveLinkpath(app, target, sourcePath) ||
+        app.vault.getAbstractFileByPath(normalizePath(target));
+    if (resolved instanceof TFile) {
+        referenced.add(resolved.path);
+    }
+}
+
+/**
+ * Finds the local image links the metadata cache doesn't index
+ * resolvedLinks covers neither <img> tags nor the destinations of reference definitions.
+ * @param content The markdown to scan
+ * @returns The local <img> sources and the definition destinations used by images, decoded
+ */
+function findUncachedImageLinks(content: string): string[] {
+    const linkpaths: string[] = [];
+    for (const embed of findImageEmbeds(content)) {
+        if (embed.kind === 'definition') {
+            const target = embed.url.replace(/\\([!-\/:-@\[-`{-~])/g, '$1');
+            try {
+                linkpaths.push(decodeURIComponent(target));
+            } catch (error) {
+                linkpaths.push(target);
+            }
+        } else if (embed.kind === 'html' || embed.kind === 'picture') {
+            const src = getLocalImageSource(embed.kind === 'html' ? embed : embed.image);
+            if (src) {
+                linkpaths.push(src);
+            }
+        }
+    }
+    return linkpaths;
+}
+
+/**
+ * Extracts wikilink and markdown link targets from text
+ * @param text The text to scan
+ * @returns The link targets, decoded
+ */
+function extractLinkpaths(text: string): string[] {
+    const linkpaths: string[] = [];
+    let match: RegExpExecArray | null;
+
+    WIKILINK_TARGET_REGEX.lastIndex = 0;
+    while ((match = WIKILINK_TARGET_REGEX.exec(text)) !== null) {
+        linkpaths.push(match[1]);
+    }
+
+    MARKDOWN_LINK_TARGET_REGEX.lastIndex = 0;
+    while ((match = MARKDOWN_LINK_TARGET_REGEX.exec(text)) !== null) {
+        const target = match[1].startsWith('<') ? match[1].slice(1, -1) : match[1];
+        try {
+            linkpaths.push(decodeURIComponent(target));
+        } catch (error) {
+            linkpaths.push(target);
+        }
+    }
+
+    return linkpaths;
+}
+
+/**
+ * Collects every string nested in a frontmatter value
+ * @param value The frontmatter value
+ * @returns The strings found
+ */
+function collectStrings(value: unknown): string[] {
+    if (typeof value === 'string') {
+        return [value];
+    }
+    if (Array.isArray(value)) {
+        return value.reduce((strings: string[], item) => strings.concat(collectStrings(item)), []);
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return collectStrings(Object.keys(record).map(key => record[key]));
+    }
+    return [];
+}
@@ -0,0 +1,121 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DownloadQueue } from './downloadQueue';
+import { ProcessingStats } from './imageProcessor';
+import { formatBytes } from './utils';
+
+/**
+ * Shows the live progress of a vault-wide run, with a button to cancel it
+ * Closing the modal only hides it; the run goes on until it finishes or is cancelled.
+ */
+export class ProgressModal extends Modal {
+    private filesDone = 0;
+    private readonly totals: ProcessingStats;
+    private readonly startTime = Date.now();
+    private readonly startBytes: number;
+    private refreshTimer: number | null = null;
+    private cancelled = false;
+    private statusEl: HTMLElement;
+
+    /**
+     * @param app The Obsidian app
+     * @param fileCount Number of files in the run
+     * @param totals Stats of the run, updated by the caller as files finish
+     * @param downloadQueue The download queue, for bytes and in-flight downloads
+     * @param onCancel Called when the user cancels the run
+     */
+    constructor(
+        app: App,
+        private readonly fileCount: number,
+        totals: ProcessingStats,
+        private readonly downloadQueue: DownloadQueue,
+        private readonly onCancel: () => void
+    ) {
+        super(app);
+        this.totals = totals;
+        this.startBytes = downloadQueue.bytesDownloaded;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('Saving images offline');
+
+        this.statusEl = contentEl.createDiv('save-images-offline-progress-status');
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .setWarning()
+                .onClick(() => {
+                    this.cancelled = true;
+                    button.setDisabled(true);
+                    this.onCancel();
+                    this.render();
+                }))
+            .addButton(button => button
+                .setButtonText('Hide')
+                .onClick(() => this.close()));
+
+        this.render();
+        this.refreshTimer = window.setInterval(() => this.render(), 500);
+    }
+
+    onClose() {
+        if (this.refreshTimer !== null) {
+            window.clearInterval(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+        this.contentEl.empty();
+    }
+
+    /**
+     * Records that a file has been processed
+     */
+    fileDone(): void {
+        this.filesDone++;
+    }
+
+    /**
+     * Redraws the progress figures
+     */
+    private render(): void {
+        if (!this.statusEl) {
+            return;
+        }
+
+        const elapsed = Date.now() - this.startTime;
+        const remaining = this.fileCount - this.filesDone;
+        const eta = this.filesDone > 0 && !this.cancelled ?
+            formatDuration(elapsed / this.filesDone * remaining) :
+            '—';
+
+        this.statusEl.empty();
+        this.statusEl.createDiv({ text: `Files: ${this.filesDone} / ${this.fileCount}` });
+        this.statusEl.createDiv({
+            text: `Images: ${this.totals.downloaded} saved, ${this.totals.failed} failed, ${this.totals.skipped} skipped` +
+                (this.totals.sanitized > 0 ? `, ${this.totals.sanitized} sanitized` : '') +
+                ` (${this.downloadQueue.activeCount} downloading, ${this.downloadQueue.pendingCount} queued)`
+        });
+        this.statusEl.createDiv({ text: `Downloaded: ${formatBytes(this.downloadQueue.bytesDownloaded - this.startBytes)}` });
+        if (this.totals.resized > 0) {
+            this.statusEl.createDiv({
+                text: `Resized: ${this.totals.resized} images (${formatBytes(this.totals.bytesBeforeResize)} → ${formatBytes(this.totals.bytesAfterResize)})`
+            });
+        }
+        this.statusEl.createDiv({ text: this.cancelled ? 'Cancelling...' : `Time remaining: ${eta}` });
+    }
+}
+
+/**
+ * Formats a duration for display
+ * @param ms The duration in milliseconds
+ * @returns The duration, e.g. "2m 05s"
+ */
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) {
+        return `${seconds}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m ${('0' + (seconds % 60)).slice(-2)}s`;
+}
@@ -0,0 +1,206 @@
+import { App, TFile, Vault, normalizePath } from 'obsidian';
+import { SaveImagesOfflineSettings } from './settings';
+import { log } from './logger';
+
+// Sidecar manifest written next to downloaded images
+export const MANIFEST_FILENAME = 'image-sources.json';
+
+// Frontmatter map of local image path -> source URL
+export const FRONTMATTER_SOURCES_KEY = 'image-sources';
+
+// Matches the comment written after a localized link in 'comment' mode
+export const SOURCE_COMMENT_REGEX = /<!-- source: (\S+) -->/;
+
+/**
+ * Where an image was downloaded from
+ */
+export interface ProvenanceRecord {
+    // Vault path of the saved image
+    localPath: string;
+    // URL the image was downloaded from
+    url: string;
+    // Note whose link was rewritten, or '' if unknown
+    notePath: string;
+}
+
+/**
+ * Sidecar manifest contents: image filename -> source
+ */
+type Manifest = Record<string, { url: string, note: string, date: string }>;
+
+/**
+ * Formats the HTML comment kept next to a localized link
+ * @param url The source URL
+ * @returns The comment
+ */
+export function formatSourceComment(url: string): string {
+    // '>' could end the comment early and whitespace would end the URL. '%' is escaped as well,
+    // so every escape in the comment is one of ours and parseSourceComment can undo them exactly.
+    return `<!-- source: ${url.replace(/[%>\s]/g, char => encodeURIComponent(char))} -->`;
+}
+
+/**
+ * Reads the source URL from a comment written by formatSourceComment
+ * @param comment Text containing the comment
+ * @returns The source URL, or undefined if the text has no source comment
+ */
+export function parseSourceComment(comment: string): string | undefined {
+    const match = comment.match(SOURCE_COMMENT_REGEX);
+    if (!match) {
+        return undefined;
+    }
+    try {
+        return match[1].replace(/(%[0-9a-f]{2})+/gi, escapes => decodeURIComponent(escapes));
+    } catch (error) {
+        return match[1];
+    }
+}
+
+/**
+ * Records the original URL of localized images, according to the provenance setting
+ * Manifest records are written as they come in; frontmatter records are buffered per note
+ * until the note itself has been written, see flush().
+ */
+export class ProvenanceRecorder {
+    private pendingFrontmatter: Map<string, ProvenanceRecord[]> = new Map();
+    private manifestWrites: Promise<void> = Promise.resolve();
+
+    constructor(private app: App, private getSettings: () => SaveImagesOfflineSettings) {}
+
+    /**
+     * Records the source of a localized image
+     * Comment mode is handled by the caller, as the comment is part of the rewritten link.
+     * @param record The image and its source
+     */
+    record(record: ProvenanceRecord): void {
+        switch (this.getSettings().provenanceMode) {
+            case 'manifest':
+                this.recordInManifest(record);
+                break;
+            case 'frontmatter':
+                if (record.notePath) {
+                    const records = this.pendingFrontmatter.get(record.notePath) || [];
+                    records.push(record);
+                    this.pendingFrontmatter.set(record.notePath, records);
+                }
+                break;
+        }
+    }
+
+    /**
+     * Writes buffered frontmatter records of a note
+     * Must be called after the rewritten content of the note has been saved. Canvases have no
+     * frontmatter, so their records go to the sidecar manifest instead.
+     * @param file The note or canvas
+     */
+    async flush(file: TFile): Promise<void> {
+        const records = this.pendingFrontmatter.get(file.path);
+        this.pendingFrontmatter.delete(file.path);
+
+        if (records && records.length > 0) {
+            if (file.extension === 'md') {
+                await this.app.fileManager.processFrontMatter(file, frontmatter => {
+                    const sources = frontmatter[FRONTMATTER_SOURCES_KEY] || {};
+                    for (const record of records) {
+                        sources[record.localPath] = record.url;
+                    }
+                    frontmatter[FRONTMATTER_SOURCES_KEY] = sources;
+                });
+            } else {
+                records.forEach(record => this.recordInManifest(record));
+            }
+        }
+
+        await this.manifestWrites;
+    }
+
+    /**
+     * Drops buffered frontmatter records of a note that won't be written
+     * @param file The note
+     */
+    discard(file: TFile): void {
+        this.pendingFrontmatter.delete(file.path);
+    }
+
+    /**
+     * Adds a record to the sidecar manifest of the image's folder
+     * @param record The image and its source
+     */
+    private recordInManifest(record: ProvenanceRecord): void {
+        // Serialize writes so concurrent downloads don't overwrite each other's entries
+        this.manifestWrites = this.manifestWrites
+            .then(() => updateManifest(this.app.vault, record.localPath, manifest => {
+                const name = getFilename(record.localPath);
+                if (!manifest[name] || manifest[name].url !== record.url) {
+                    manifest[name] = { url: record.url, note: record.notePath, date: new Date().toISOString() };
+                }
+            }))
+            .catch(error => log.error(`Failed to update image source manifest: ${error.message}`));
+    }
+}
+
+/**
+ * Looks up the source URL of an image in the sidecar manifest of its folder
+ * @param vault The Obsidian vault
+ * @param localPath Vault path of the image
+ * @returns The source URL, or undefined if not recorded
+ */
+export async function readManifestSource(vault: Vault, localPath: string): Promise<string | undefined> {
+    const manifest = await readManifest(vault, getManifestPath(localPath));
+    const entry = manifest[getFilename(localPath)];
+    return entry ? entry.url : undefined;
+}
+
+/**
+ * Removes an image from the sidecar manifest of its folder
+ * @param vault The Obsidian vault
+ * @param localPath Vault path of the image
+ */
+export async function removeManifestSource(vault: Vault, localPath: string): Promise<void> {
+    if (await vault.adapter.exists(getManifestPath(localPath))) {
+        await updateManifest(vault, localPath, manifest => {
+            delete manifest[getFilename(localPath)];
+        });
+    }
+}
+
+/**
+ * Reads, updates and writes back the manifest of an image's folder
+ * @param vault The Obsidian vault
+ * @param localPath Vault path of the image
+ * @param update Mutates the manifest
+ */
+async function updateManifest(vault: Vault, localPath: string, update: (manifest: Manifest) => void): Promise<void> {
+    const manifestPath = getManifestPath(localPath);
+    const manifest = await readManifest(vault, manifestPath);
+    update(manifest);
+    await vault.adapter.write(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Reads a manifest file
+ * @param vault The Obsidian vault
+ * @param manifestPath Vault path of the manifest
+ * @returns The manifest, empty if missing or unreadable
+ */
+async function readManifest(vault: Vault, manifestPath: string): Promise<Manifest> {
+    if (!(await vault.adapter.exists(manifestPath))) {
+        return {};
+    }
+
+    try {
+        return JSON.parse(await vault.adapter.read(manifestPath));
+    } catch (error) {
+        log.warn(`Ignoring unreadable image source manifest ${manifestPath}: ${error.message}`);
+        return {};
+    }
+}
+
+function getManifestPath(localPath: string): string {
+    const index = localPath.lastIndexOf('/');
+    return normalizePath(index === -1 ? MANIFEST_FILENAME : `${localPath.substring(0, index)}/${MANIFEST_FILENAME}`);
+}
+
+function getFilename(localPath: string): string {
+    return localPath.substring(localPath.lastIndexOf('/') + 1);
+}
@@ -0,0 +1,83 @@
+import { ImageType } from './imageTypes';
+import { ConvertedImage, TARGET_MIME_TYPES, decodeImage, drawToCanvas, encodeCanvas } from './conversion';
+import { log } from './logger';
+
+/**
+ * Size limits for saved images; 0 means no limit
+ */
+export interface ResizeLimits {
+    maxWidth: number;
+    maxHeight: number;
+    maxMegapixels: number;
+}
+
+// Quality used when re-encoding downscaled JPEG and WebP images
+const RESIZE_QUALITY = 90;
+
+/**
+ * Computes the size of an image after applying the limits, keeping its aspect ratio
+ * @param width Width of the image
+ * @param height Height of the image
+ * @param limits The size limits
+ * @returns The new size, equal to the original if the image is within the limits
+ */
+export function fitWithinLimits(width: number, height: number, limits: ResizeLimits): { width: number, height: number } {
+    let scale = 1;
+    if (limits.maxWidth > 0) {
+        scale = Math.min(scale, limits.maxWidth / width);
+    }
+    if (limits.maxHeight > 0) {
+        scale = Math.min(scale, limits.maxHeight / height);
+    }
+    if (limits.maxMegapixels > 0) {
+        scale = Math.min(scale, Math.sqrt(limits.maxMegapixels * 1000000 / (width * height)));
+    }
+
+    if (scale >= 1) {
+        return { width, height };
+    }
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale))
+    };
+}
+
+/**
+ * Downscales an image that exceeds the size limits
+ * Animated images and SVGs are left alone. Formats a canvas can't encode, such as AVIF or
+ * BMP, are saved as PNG when downscaled. If the platform can't decode the image, the original
+ * is kept.
+ * @param data The image data
+ * @param type The type of the image
+ * @param limits The size limits
+ * @returns The downscaled image, or the original if it is within the limits or can't be downscaled
+ */
+export async function downscaleImage(data: ArrayBuffer, type: ImageType, limits: ResizeLimits): Promise<ConvertedImage> {
+    const original = { data, type };
+    if (type.animated || type.extension === 'svg' ||
+        (limits.maxWidth <= 0 && limits.maxHeight <= 0 && limits.maxMegapixels <= 0)) {
+        return original;
+    }
+
+    try {
+        const image = await decodeImage(data, type.mimeType);
+        const size = fitWithinLimits(image.naturalWidth, image.naturalHeight, limits);
+        if (size.width === image.naturalWidth && size.height === image.naturalHeight) {
+            return original;
+        }
+
+        const extension = TARGET_MIME_TYPES[type.extension] ? type.extension : 'png';
+        const mimeType = TARGET_MIME_TYPES[extension];
+        const canvas = drawToCanvas(image, size.width, size.height, extension === 'jpg');
+        const resized = await encodeCanvas(canvas, mimeType, RESIZE_QUALITY);
+
+        log.debug(`Downscaled image from ${image.naturalWidth}x${image.naturalHeight} to ${size.width}x${size.height}`);
+        return {
+            data: resized,
+            type: { extension, mimeType, animated: false }
+        };
+    } catch (error) {
+        log.warn(`Could not downscale ${type.extension} image, keeping the original: ${error.message}`);
+        return original;
+    }
+}
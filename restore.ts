@@ -0,0 +1,341 @@
+import { App, TFile } from 'obsidian';
+import { ImageIndex } from './imageIndex';
+import {
+    FRONTMATTER_SOURCES_KEY,
+    parseSourceComment,
+    readManifestSource,
+    removeManifestSource
+} from './provenance';
+import { TextRange, findExcludedRanges, findImageEmbeds, getHtmlAttribute } from './markdownScanner';
+import { decodeEntities, rewriteImageTag } from './htmlImages';
+import { CanvasData, detectIndent } from './canvas';
+import { getFrontmatterImageLinks, rewriteFrontmatterImages } from './frontmatterImages';
+import { isImageFile } from './utils';
+import { resolveLinkpath } from './links';
+import { collectReferencedPaths } from './orphans';
+import { log } from './logger';
+
+// Wikilink embeds, which the markdown scanner doesn't cover
+const WIKILINK_EMBED_REGEX = /!\[\[([^\]|#]+)(?:\|([^\]]*))?\]\]/g;
+
+// Source comment written right after a link
+const TRAILING_SOURCE_COMMENT_REGEX = /^<!-- source: \S+ -->/;
+
+/**
+ * A local image link found in a note, with how to point it back at its source URL
+ */
+interface LocalEmbed extends TextRange {
+    linkpath: string;
+    // Source comment following the link, included in the range
+    comment?: string;
+    rewrite: (url: string) => string;
+}
+
+/**
+ * Restores a single link: returns the text to put in place of the link
+ */
+type EmbedRestorer = (
+    match: string,
+    linkpath: string,
+    comment: string | undefined,
+    rewrite: (url: string) => string
+) => Promise<string>;
+
+/**
+ * Outcome of a restore run
+ */
+export interface RestoreResult {
+    // Notes whose content changed
+    notes: number;
+    // Links pointed back at their source URL
+    restored: number;
+    // Local embeds whose source URL is unknown
+    unknown: number;
+    // Images moved to the trash because nothing uses them anymore
+    deleted: number;
+}
+
+/**
+ * Replaces local image embeds with the URLs they were downloaded from
+ * Sources are looked up in the link's source comment, the note's frontmatter, the sidecar
+ * manifest of the image's folder and finally the image index. In canvases, image file nodes
+ * become link nodes again and the markdown of text nodes is restored like a note. Links in the
+ * frontmatter image keys of notes are set back to their URLs as well.
+ * @param app The Obsidian app
+ * @param imageIndex The image index
+ * @param files The notes and canvases to restore
+ * @param frontmatterKeys The frontmatter image keys
+ * @param deleteUnused Whether to trash restored images that no other note uses
+ * @returns Stats about the restore
+ */
+export async function restoreOriginalUrls(
+    app: App,
+    imageIndex: ImageIndex,
+    files: TFile[],
+    frontmatterKeys: string[],
+    deleteUnused: boolean
+): Promise<RestoreResult> {
+    const result: RestoreResult = { notes: 0, restored: 0, unknown: 0, deleted: 0 };
+    const processedPaths = new Set(files.map(file => file.path));
+    // Images whose links were restored, and images still embedded by one of the processed notes
+    const restoredImages = new Map<string, TFile>();
+    const keptImages = new Set<string>();
+
+    for (const file of files) {
+        const content = await app.vault.read(file);
+        const cache = app.metadataCache.getFileCache(file);
+        const frontmatterSources: Record<string, string> =
+            (cache && cache.frontmatter && cache.frontmatter[FRONTMATTER_SOURCES_KEY]) || {};
+        const restoredInNote: string[] = [];
+
+        const restoreEmbed: EmbedRestorer = async (match, linkpath, comment, rewrite) => {
+            const imageFile = resolveLinkpath(app, linkpath, file.path);
+            if (!imageFile || !isImageFile(imageFile)) {
+                return match;
+            }
+
+            const url = await findSourceUrl(app, imageIndex, imageFile, comment, frontmatterSources);
+            if (!url) {
+                result.unknown++;
+                keptImages.add(imageFile.path);
+                return match;
+            }
+
+            result.restored++;
+            restoredImages.set(imageFile.path, imageFile);
+            restoredInNote.push(imageFile.path);
+            return rewrite(url);
+        };
+
+        const newContent = file.extension === 'canvas' ?
+            await restoreCanvas(content, file, restoreEmbed) :
+            await restoreMarkdown(content, restoreEmbed);
+
+        // Property values to put back, by the current value
+        const frontmatterLinks = new Map<string, string>();
+        if (file.extension === 'md') {
+            for (const value of getFrontmatterImageLinks(file, content, frontmatterKeys)) {
+                const linkpath = value.replace(/^!?\[\[/, '').replace(/(\|[^\]]*)?\]\]$/, '');
+                const url = await restoreEmbed(value, linkpath, undefined, restored => restored);
+                if (url !== value) {
+                    frontmatterLinks.set(value, url);
+                }
+            }
+        }
+
+        if (newContent !== content) {
+            await app.vault.modify(file, newContent);
+        }
+        await rewriteFrontmatterImages(app, file, frontmatterKeys, frontmatterLinks);
+        if (newContent !== content || frontmatterLinks.size > 0) {
+            result.notes++;
+        }
+
+        if (restoredInNote.length > 0 && frontmatterSources && Object.keys(frontmatterSources).length > 0) {
+            await app.fileManager.processFrontMatter(file, frontmatter => {
+                const sources = frontmatter[FRONTMATTER_SOURCES_KEY];
+                if (!sources) {
+                    return;
+                }
+                for (const imagePath of restoredInNote) {
+                    delete sources[imagePath];
+                }
+                if (Object.keys(sources).length === 0) {
+                    delete frontmatter[FRONTMATTER_SOURCES_KEY];
+                }
+            });
+        }
+    }
+
+    if (deleteUnused) {
+        // The metadata cache may not have caught up with the restored notes, so they are left out
+        const referenced = await collectReferencedPaths(app, processedPaths);
+        for (const [imagePath, imageFile] of Array.from(restoredImages)) {
+            if (keptImages.has(imagePath) || referenced.has(imagePath)) {
+                continue;
+            }
+
+            log.info(`Moving unused image ${imagePath} to the trash`);
+            await removeManifestSource(app.vault, imagePath);
+            await app.vault.trash(imageFile, true);
+            result.deleted++;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Restores the local image links of markdown
+ * @param content The markdown
+ * @param restoreEmbed Restores a single link
+ * @returns The markdown with the restored links
+ */
+async function restoreMarkdown(content: string, restoreEmbed: EmbedRestorer): Promise<string> {
+    // Rewrite only the embeds, leaving the text around them as it is
+    let newContent = '';
+    let position = 0;
+    for (const embed of findLocalEmbeds(content)) {
+        const original = content.slice(embed.start, embed.end);
+        newContent += content.slice(position, embed.start) +
+            await restoreEmbed(original, embed.linkpath, embed.comment, embed.rewrite);
+        position = embed.end;
+    }
+    return newContent + content.slice(position);
+}
+
+/**
+ * Restores the image file nodes and the text nodes of a canvas
+ * @param content The canvas JSON
+ * @param file The canvas, for error messages
+ * @param restoreEmbed Restores a single link
+ * @returns The canvas JSON with the restored nodes
+ * @throws Error if the file isn't valid canvas JSON
+ */
+async function restoreCanvas(content: string, file: TFile, restoreEmbed: EmbedRestorer): Promise<string> {
+    if (!content.trim()) {
+        return content;
+    }
+
+    let canvas: CanvasData;
+    try {
+        canvas = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`${file.path} is not a valid canvas: ${error.message}`);
+    }
+
+    let changed = false;
+    for (const node of Array.isArray(canvas.nodes) ? canvas.nodes : []) {
+        if (node.type === 'text' && typeof node.text === 'string') {
+            const text = await restoreMarkdown(node.text, restoreEmbed);
+            if (text !== node.text) {
+                node.text = text;
+                changed = true;
+            }
+        } else if (node.type === 'file' && typeof node.file === 'string') {
+            const url = await restoreEmbed(node.file, node.file, undefined, restored => restored);
+            if (url !== node.file) {
+                // Undo the link node turned into a file node when the image was saved
+                node.type = 'link';
+                delete node.file;
+                node.url = url;
+                changed = true;
+            }
+        }
+    }
+
+    return changed ? JSON.stringify(canvas, null, detectIndent(content)) : content;
+}
+
+/**
+ * Finds the local image links of a note, skipping code, math, comments and frontmatter
+ * @param content The note content
+ * @returns The links, in the order they appear
+ */
+function findLocalEmbeds(content: string): LocalEmbed[] {
+    const embeds: LocalEmbed[] = [];
+    const withComment = (embed: LocalEmbed): LocalEmbed => {
+        const match = TRAILING_SOURCE_COMMENT_REGEX.exec(content.slice(embed.end));
+        return match ? Object.assign(embed, { end: embed.end + match[0].length, comment: match[0] }) : embed;
+    };
+
+    for (const embed of findImageEmbeds(content)) {
+        if (embed.kind === 'markdown' || embed.kind === 'definition') {
+            const linkpath = embed.url.replace(/\\([!-\/:-@\[-`{-~])/g, '$1');
+            if (isUrl(linkpath)) {
+                continue;
+            }
+            if (embed.kind === 'definition') {
+                // A source comment would end the definition, so it never has one
+                embeds.push({ start: embed.start, end: embed.end, linkpath: decodeLinkpath(linkpath), rewrite: url => url });
+            } else {
+                const title = embed.rawTitle ? ` ${embed.rawTitle}` : '';
+                const altText = embed.altText;
+                embeds.push(withComment({
+                    start: embed.start,
+                    end: embed.end,
+                    linkpath: decodeLinkpath(linkpath),
+                    rewrite: url => `![${altText}](${url}${title})`
+                }));
+            }
+        } else {
+            // A <picture> was rewritten to its <img> when saved, so only that tag is restored
+            const tag = embed.kind === 'html' ? embed : embed.image;
+            const src = getHtmlAttribute(tag, 'src');
+            const linkpath = src ? decodeEntities(src.value.trim()) : '';
+            if (!linkpath || isUrl(linkpath)) {
+                continue;
+            }
+            embeds.push(withComment({
+                start: tag.start,
+                end: tag.end,
+                linkpath: decodeLinkpath(linkpath),
+                rewrite: url => rewriteImageTag(tag, url)
+            }));
+        }
+    }
+
+    const excluded = findExcludedRanges(content).concat(embeds);
+    let match: RegExpExecArray | null;
+    WIKILINK_EMBED_REGEX.lastIndex = 0;
+    while ((match = WIKILINK_EMBED_REGEX.exec(content)) !== null) {
+        const offset = match.index;
+        if (excluded.some(range => range.start <= offset && offset < range.end)) {
+            continue;
+        }
+        const alias = match[2] || '';
+        embeds.push(withComment({
+            start: offset,
+            end: offset + match[0].length,
+            linkpath: match[1].trim(),
+            rewrite: url => `![${alias}](${url})`
+        }));
+    }
+
+    return embeds.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds the URL a local image was downloaded from
+ * @param app The Obsidian app
+ * @param imageIndex The image index
+ * @param imageFile The local image
+ * @param comment The source comment following the link, if any
+ * @param frontmatterSources The note's frontmatter source map
+ * @returns The source URL, or undefined if unknown
+ */
+async function findSourceUrl(
+    app: App,
+    imageIndex: ImageIndex,
+    imageFile: TFile,
+    comment: string | undefined,
+    frontmatterSources: Record<string, string>
+): Promise<string | undefined> {
+    const commentUrl = comment ? parseSourceComment(comment) : undefined;
+    if (commentUrl) {
+        return commentUrl;
+    }
+
+    if (typeof frontmatterSources[imageFile.path] === 'string') {
+        return frontmatterSources[imageFile.path];
+    }
+
+    const manifestUrl = await readManifestSource(app.vault, imageFile.path);
+    if (manifestUrl) {
+        return manifestUrl;
+    }
+
+    return imageIndex.getUrlsByPath(imageFile.path)[0];
+}
+
+function decodeLinkpath(linkpath: string): string {
+    try {
+        return decodeURIComponent(linkpath);
+    } catch (error) {
+        return linkpath;
+    }
+}
+
+function isUrl(linkpath: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:/i.test(linkpath);
+}
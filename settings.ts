@@ -1,40 +1,143 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import SaveImagesOfflinePlugin from './main';
 import { LogLevel } from './logger';
+import { ConversionRule, ConversionTarget } from './conversion';
+import { DomainRule, createDomainRule } from './domainRules';
+import { DomainRuleModal } from './domainRuleModal';
+import { NOTE_FLAG_KEY } from './noteFilters';
+import { UrlFilterAction, UrlFilterMatch, UrlFilterRule, evaluateUrlFilters } from './urlFilters';
+
+/**
+ * How rewritten image links are written into notes
+ * - obsidian: follow the vault's "Use [[Wikilinks]]" and "New link format" options
+ * - wikilink: always write ![[...]] embeds
+ * - relative: markdown link relative to the note
+ * - absolute: markdown link with the full vault path
+ */
+export type LinkFormat = 'obsidian' | 'wikilink' | 'relative' | 'absolute';
+
+/**
+ * How localized HTML <img> tags are written into notes
+ * - markdown: an embed in the link format, keeping only the alt text
+ * - markdown-sized: an embed with Obsidian's |WIDTHxHEIGHT size from the width and height attributes
+ * - html: the original tag with src pointing at the saved image and all other attributes kept
+ */
+export type HtmlImageFormat = 'markdown' | 'markdown-sized' | 'html';
+
+/**
+ * Where downloaded images are saved
+ * - note-folder: the image folder inside the note's folder
+ * - obsidian: Obsidian's "Default location for new attachments"
+ * - template: the expanded image path template
+ */
+export type ImageLocation = 'note-folder' | 'obsidian' | 'template';
+
+/**
+ * What to do when a different image already exists at the target path
+ * - suffix: save as name-1.ext, name-2.ext, ...
+ * - overwrite: replace the existing file
+ * - fail: leave the link untouched and report the image as failed
+ */
+export type CollisionPolicy = 'suffix' | 'overwrite' | 'fail';
+
+/**
+ * Where the original URL of a localized image is kept
+ * - none: only in the plugin's image index
+ * - manifest: image-sources.json next to the saved images
+ * - frontmatter: an image-sources map in the note's frontmatter
+ * - comment: an HTML comment right after the link
+ */
+export type ProvenanceMode = 'none' | 'manifest' | 'frontmatter' | 'comment';
 
 export interface SaveImagesOfflineSettings {
     // General settings
     autoDownloadImages: boolean;
     downloadOnPaste: boolean;
+    // Folder globs, one per line
+    includedFolders: string;
+    excludedFolders: string;
+    // Comma-separated tags
+    excludedTags: string;
 
     // Image storage settings
+    imageLocation: ImageLocation;
     imageFolder: string;
-    useMD5ForFilenames: boolean;
+    imagePathTemplate: string;
+    filenameTemplate: string;
+    maxFilenameLength: number;
+    collisionPolicy: CollisionPolicy;
+    linkFormat: LinkFormat;
+    htmlImageFormat: HtmlImageFormat;
+    provenanceMode: ProvenanceMode;
+    deleteUnusedOnRestore: boolean;
 
     // Image processing settings
-    convertPngToJpeg: boolean;
-    jpegQuality: number;
+    // Comma-separated frontmatter keys holding image URLs
+    frontmatterImageKeys: string;
+    extractDataUris: boolean;
+    conversionRules: ConversionRule[];
+    // 0 means no limit
+    maxImageWidth: number;
+    maxImageHeight: number;
+    maxImageMegapixels: number;
+    stripImageMetadata: boolean;
+    // Images below either threshold are not saved; 0 disables the threshold
+    minImageBytes: number;
+    minImageDimension: number;
+    removeTinyImageLinks: boolean;
 
     // Advanced settings
     maxDownloadRetries: number;
     downloadTimeout: number;
-    ignoredDomains: string;
+    // 0 means no limit
+    maxDownloadSizeMB: number;
+    maxConcurrentDownloads: number;
+    maxConcurrentPerHost: number;
+    hostRequestsPerSecond: number;
+    domainRules: DomainRule[];
+    urlFilters: UrlFilterRule[];
+    allowlistOnly: boolean;
     logLevel: LogLevel;
 }
 
 export const DEFAULT_SETTINGS: SaveImagesOfflineSettings = {
     autoDownloadImages: true,
     downloadOnPaste: true,
+    includedFolders: '',
+    excludedFolders: '',
+    excludedTags: '',
 
+    imageLocation: 'note-folder',
     imageFolder: 'attachments',
-    useMD5ForFilenames: true,
-
-    convertPngToJpeg: false,
-    jpegQuality: 85,
+    imagePathTemplate: 'assets/{{date:YYYY/MM}}',
+    filenameTemplate: '{{urlname}}-{{hash:8}}',
+    maxFilenameLength: 80,
+    collisionPolicy: 'suffix',
+    linkFormat: 'obsidian',
+    htmlImageFormat: 'markdown',
+    provenanceMode: 'none',
+    deleteUnusedOnRestore: false,
+
+    frontmatterImageKeys: 'cover, banner, image, thumbnail',
+    extractDataUris: false,
+    conversionRules: [],
+    maxImageWidth: 0,
+    maxImageHeight: 0,
+    maxImageMegapixels: 0,
+    stripImageMetadata: false,
+    minImageBytes: 0,
+    minImageDimension: 0,
+    removeTinyImageLinks: false,
 
     maxDownloadRetries: 3,
     downloadTimeout: 30000,
-    ignoredDomains: '',
+    maxDownloadSizeMB: 0,
+    maxConcurrentDownloads: 4,
+    maxConcurrentPerHost: 2,
+    hostRequestsPerSecond: 0,
+    domainRules: [],
+    urlFilters: [],
+    allowlistOnly: false,
     logLevel: LogLevel.ERROR
 };
 
@@ -77,27 +180,167 @@ export class SaveImagesOfflineSettingTab extends PluginSettingTab {
                     this.plugin.updatePasteFeature();
                 }));
 
+        new Setting(containerEl)
+            .setName('Included folders')
+            .setDesc('Only process notes in these folders, one folder or glob per line (e.g. Notes or Projects/*/Research). Leave empty to process the whole vault.')
+            .addTextArea(text => text
+                .setPlaceholder('Notes')
+                .setValue(this.plugin.settings.includedFolders)
+                .onChange(async (value) => {
+                    this.plugin.settings.includedFolders = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Excluded folders')
+            .setDesc('Never process notes in these folders, one folder or glob per line (e.g. Templates or **/Inbox)')
+            .addTextArea(text => text
+                .setPlaceholder('Templates')
+                .setValue(this.plugin.settings.excludedFolders)
+                .onChange(async (value) => {
+                    this.plugin.settings.excludedFolders = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Excluded tags')
+            .setDesc(`Never process notes with these tags, comma-separated. A note's "${NOTE_FLAG_KEY}" frontmatter key (true, false or manual) overrides the folder and tag settings.`)
+            .addText(text => text
+                .setPlaceholder('#template, #published')
+                .setValue(this.plugin.settings.excludedTags)
+                .onChange(async (value) => {
+                    this.plugin.settings.excludedTags = value;
+                    await this.plugin.saveSettings();
+                }));
+
         // Image Storage Settings
         containerEl.createEl('h3', { text: 'Image Storage Settings' });
 
         new Setting(containerEl)
-            .setName('Image folder')
-            .setDesc('Folder path where images will be saved (subfolder name within note folder)')
+            .setName('Image location')
+            .setDesc('Where downloaded images are saved')
+            .addDropdown(dropdown => dropdown
+                .addOption('note-folder', 'Subfolder within note folder')
+                .addOption('obsidian', 'Follow Obsidian attachment location')
+                .addOption('template', 'Path template')
+                .setValue(this.plugin.settings.imageLocation)
+                .onChange(async (value) => {
+                    this.plugin.settings.imageLocation = value as ImageLocation;
+                    await this.plugin.saveSettings();
+                    // Redraw to show the options for the selected location
+                    this.display();
+                }));
+
+        if (this.plugin.settings.imageLocation === 'note-folder') {
+            new Setting(containerEl)
+                .setName('Image folder')
+                .setDesc('Folder path where images will be saved (subfolder name within note folder)')
+                .addText(text => text
+                    .setPlaceholder('attachments')
+                    .setValue(this.plugin.settings.imageFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.imageFolder = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        if (this.plugin.settings.imageLocation === 'template') {
+            new Setting(containerEl)
+                .setName('Image path template')
+                .setDesc('Vault folder for images. Tokens: {{notename}}, {{notepath}}, {{date:YYYY/MM}}, {{domain}}, {{vault-root}}')
+                .addText(text => text
+                    .setPlaceholder('assets/{{date:YYYY/MM}}')
+                    .setValue(this.plugin.settings.imagePathTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.imagePathTemplate = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Filename template')
+            .setDesc('Name for downloaded images. Tokens: {{hash:8}}, {{md5}}, {{urlname}}, {{alt}}, {{notename}}, {{domain}}, {{index}}, {{date}}, {{ext}}. The extension is always added at the end')
             .addText(text => text
-                .setPlaceholder('attachments')
-                .setValue(this.plugin.settings.imageFolder)
+                .setPlaceholder('{{urlname}}-{{hash:8}}')
+                .setValue(this.plugin.settings.filenameTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.filenameTemplate = value || DEFAULT_SETTINGS.filenameTemplate;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Max filename length')
+            .setDesc('Longer filenames are truncated (extension included)')
+            .addSlider(slider => slider
+                .setLimits(20, 200, 10)
+                .setValue(this.plugin.settings.maxFilenameLength)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxFilenameLength = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Filename collisions')
+            .setDesc('What to do when a different image already exists with the same filename')
+            .addDropdown(dropdown => dropdown
+                .addOption('suffix', 'Add a numeric suffix (-1, -2, ...)')
+                .addOption('overwrite', 'Overwrite the existing file')
+                .addOption('fail', 'Fail the image')
+                .setValue(this.plugin.settings.collisionPolicy)
+                .onChange(async (value) => {
+                    this.plugin.settings.collisionPolicy = value as CollisionPolicy;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Link format')
+            .setDesc('How links to downloaded images are written into notes')
+            .addDropdown(dropdown => dropdown
+                .addOption('obsidian', 'Follow Obsidian link settings')
+                .addOption('wikilink', 'Wikilink embed (![[...]])')
+                .addOption('relative', 'Markdown, relative to note')
+                .addOption('absolute', 'Markdown, absolute vault path')
+                .setValue(this.plugin.settings.linkFormat)
                 .onChange(async (value) => {
-                    this.plugin.settings.imageFolder = value;
+                    this.plugin.settings.linkFormat = value as LinkFormat;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Use MD5 for filenames')
-            .setDesc('Use MD5 hash of image content as filename (prevents duplicates)')
+            .setName('HTML images')
+            .setDesc('How <img> and <picture> tags are rewritten. The largest srcset candidate is downloaded')
+            .addDropdown(dropdown => dropdown
+                .addOption('markdown', 'Markdown embed')
+                .addOption('markdown-sized', 'Markdown embed with width and height')
+                .addOption('html', 'Keep the <img> tag and its attributes')
+                .setValue(this.plugin.settings.htmlImageFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.htmlImageFormat = value as HtmlImageFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Record image sources')
+            .setDesc('Where to keep the original URL of downloaded images, so links can be restored later')
+            .addDropdown(dropdown => dropdown
+                .addOption('manifest', 'Sidecar manifest (image-sources.json)')
+                .addOption('frontmatter', 'Note frontmatter')
+                .addOption('comment', 'HTML comment next to the link')
+                .addOption('none', 'Image index only')
+                .setValue(this.plugin.settings.provenanceMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.provenanceMode = value as ProvenanceMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Delete unused images on restore')
+            .setDesc('When restoring original URLs, move images that no other note uses to the trash')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.useMD5ForFilenames)
+                .setValue(this.plugin.settings.deleteUnusedOnRestore)
                 .onChange(async (value) => {
-                    this.plugin.settings.useMD5ForFilenames = value;
+                    this.plugin.settings.deleteUnusedOnRestore = value;
                     await this.plugin.saveSettings();
                 }));
 
@@ -105,24 +348,162 @@ export class SaveImagesOfflineSettingTab extends PluginSettingTab {
         containerEl.createEl('h3', { text: 'Image Processing Settings' });
 
         new Setting(containerEl)
-            .setName('Convert PNG to JPEG')
-            .setDesc('Convert PNG images to JPEG to save space')
+            .setName('Frontmatter image keys')
+            .setDesc('Comma-separated properties whose image URLs are saved and replaced with links, e.g. for banner and gallery plugins. Lists of URLs are supported')
+            .addText(text => text
+                .setPlaceholder('cover, banner, image, thumbnail')
+                .setValue(this.plugin.settings.frontmatterImageKeys)
+                .onChange(async (value) => {
+                    this.plugin.settings.frontmatterImageKeys = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Extract embedded images')
+            .setDesc('Save images embedded in notes as data URIs (data:image/png;base64,...) as attachments and replace them with links')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.convertPngToJpeg)
+                .setValue(this.plugin.settings.extractDataUris)
                 .onChange(async (value) => {
-                    this.plugin.settings.convertPngToJpeg = value;
+                    this.plugin.settings.extractDataUris = value;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('JPEG Quality')
-            .setDesc('Quality of JPEG images when converting from PNG (1-100)')
-            .addSlider(slider => slider
-                .setLimits(1, 100, 1)
-                .setValue(this.plugin.settings.jpegQuality)
-                .setDynamicTooltip()
+            .setName('Format conversion')
+            .setDesc('Rules applied in order; the first rule matching the image format decides. Formats are comma-separated extensions, "*" for all formats (except SVG) and "!gif" to exclude one. Animated images and formats this device can\'t decode are kept as they are.')
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(async () => {
+                    this.plugin.settings.conversionRules.push({ formats: '*', target: 'webp', quality: 85 });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        this.plugin.settings.conversionRules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setClass('save-images-offline-rule')
+                .addText(text => text
+                    .setPlaceholder('webp, avif')
+                    .setValue(rule.formats)
+                    .onChange(async (value) => {
+                        rule.formats = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOption('keep', 'Keep original')
+                    .addOption('png', 'Convert to PNG')
+                    .addOption('jpg', 'Convert to JPEG')
+                    .addOption('webp', 'Convert to WebP')
+                    .setValue(rule.target)
+                    .onChange(async (value) => {
+                        rule.target = value as ConversionTarget;
+                        await this.plugin.saveSettings();
+                    }))
+                .addSlider(slider => slider
+                    .setLimits(1, 100, 1)
+                    .setValue(rule.quality)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        rule.quality = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove rule')
+                    .onClick(async () => {
+                        this.plugin.settings.conversionRules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Max image width')
+            .setDesc('Wider images are downscaled, keeping their aspect ratio (pixels, 0 for no limit). Animated images and SVGs are not resized.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.maxImageWidth))
+                .onChange(async (value) => {
+                    const width = Number(value);
+                    if (!isNaN(width) && width >= 0) {
+                        this.plugin.settings.maxImageWidth = Math.floor(width);
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Max image height')
+            .setDesc('Taller images are downscaled, keeping their aspect ratio (pixels, 0 for no limit)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.maxImageHeight))
+                .onChange(async (value) => {
+                    const height = Number(value);
+                    if (!isNaN(height) && height >= 0) {
+                        this.plugin.settings.maxImageHeight = Math.floor(height);
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Max megapixels')
+            .setDesc('Images with more pixels are downscaled, keeping their aspect ratio (0 for no limit)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.maxImageMegapixels))
                 .onChange(async (value) => {
-                    this.plugin.settings.jpegQuality = value;
+                    const megapixels = Number(value);
+                    if (!isNaN(megapixels) && megapixels >= 0) {
+                        this.plugin.settings.maxImageMegapixels = megapixels;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Strip image metadata')
+            .setDesc('Remove EXIF (including GPS location), XMP and IPTC data from JPEG images and text chunks from PNG images, without re-encoding them')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.stripImageMetadata)
+                .onChange(async (value) => {
+                    this.plugin.settings.stripImageMetadata = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Min image file size (bytes)')
+            .setDesc('Smaller images, such as tracking pixels, are not saved (0 to save all images)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.minImageBytes))
+                .onChange(async (value) => {
+                    const bytes = Number(value);
+                    if (!isNaN(bytes) && bytes >= 0) {
+                        this.plugin.settings.minImageBytes = Math.floor(bytes);
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Min image dimension (pixels)')
+            .setDesc('Images narrower or shorter than this, such as 1×1 tracking pixels, are not saved (0 to save all images)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.minImageDimension))
+                .onChange(async (value) => {
+                    const dimension = Number(value);
+                    if (!isNaN(dimension) && dimension >= 0) {
+                        this.plugin.settings.minImageDimension = Math.floor(dimension);
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Remove links to tiny images')
+            .setDesc('Remove the links to images below the minimum size from notes instead of leaving them as they are')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.removeTinyImageLinks)
+                .onChange(async (value) => {
+                    this.plugin.settings.removeTinyImageLinks = value;
                     await this.plugin.saveSettings();
                 }));
 
@@ -155,16 +536,173 @@ export class SaveImagesOfflineSettingTab extends PluginSettingTab {
                 }));
 
         new Setting(containerEl)
-            .setName('Ignored domains')
-            .setDesc('Comma-separated list of domains to ignore when downloading images')
-            .addTextArea(text => text
-                .setPlaceholder('example.com, another-domain.com')
-                .setValue(this.plugin.settings.ignoredDomains)
+            .setName('Max download size (MB)')
+            .setDesc('Larger images are not downloaded (0 for no limit)')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.maxDownloadSizeMB))
+                .onChange(async (value) => {
+                    const size = Number(value);
+                    if (!isNaN(size) && size >= 0) {
+                        this.plugin.settings.maxDownloadSizeMB = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Max concurrent downloads')
+            .setDesc('Maximum number of images downloaded at the same time')
+            .addSlider(slider => slider
+                .setLimits(1, 16, 1)
+                .setValue(this.plugin.settings.maxConcurrentDownloads)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxConcurrentDownloads = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Max concurrent downloads per host')
+            .setDesc('Maximum number of images downloaded from the same host at the same time')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.plugin.settings.maxConcurrentPerHost)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxConcurrentPerHost = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Requests per second per host')
+            .setDesc('Maximum number of downloads started per second for the same host (0 for no limit)')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.hostRequestsPerSecond))
+                .onChange(async (value) => {
+                    const rate = Number(value);
+                    if (!isNaN(rate) && rate >= 0) {
+                        this.plugin.settings.hostRequestsPerSecond = rate;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Domain rules')
+            .setDesc('Headers, referer, authentication, user agent, timeout and retries for specific hosts. The first rule matching the image\'s host is used.')
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(() => {
+                    new DomainRuleModal(this.app, createDomainRule(), async (rule) => {
+                        this.plugin.settings.domainRules.push(rule);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }).open();
+                }));
+
+        this.plugin.settings.domainRules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setClass('save-images-offline-rule')
+                .setName(rule.host || '(no host)')
+                .setDesc(describeDomainRule(rule))
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Edit rule')
+                    .onClick(() => {
+                        new DomainRuleModal(this.app, rule, async (edited) => {
+                            this.plugin.settings.domainRules[index] = edited;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }).open();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove rule')
+                    .onClick(async () => {
+                        this.plugin.settings.domainRules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Allowlist only')
+            .setDesc('Only download images from URLs an include rule matches')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.allowlistOnly)
                 .onChange(async (value) => {
-                    this.plugin.settings.ignoredDomains = value;
+                    this.plugin.settings.allowlistOnly = value;
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('URL filters')
+            .setDesc('Rules that include or exclude image URLs, applied in order; the first matching rule decides. Match a host glob (*.example.com), a regular expression tested against the whole URL, or a path prefix (example.com/images/ or /images/).')
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(async () => {
+                    this.plugin.settings.urlFilters.push({ action: 'exclude', match: 'host', pattern: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        const filters = this.plugin.settings.urlFilters;
+        filters.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setClass('save-images-offline-rule')
+                .addDropdown(dropdown => dropdown
+                    .addOption('include', 'Include')
+                    .addOption('exclude', 'Exclude')
+                    .setValue(rule.action)
+                    .onChange(async (value) => {
+                        rule.action = value as UrlFilterAction;
+                        await this.plugin.saveSettings();
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOption('host', 'Host')
+                    .addOption('path', 'Path prefix')
+                    .addOption('regex', 'Regex')
+                    .setValue(rule.match)
+                    .onChange(async (value) => {
+                        rule.match = value as UrlFilterMatch;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('*.example.com')
+                    .setValue(rule.pattern)
+                    .onChange(async (value) => {
+                        rule.pattern = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(index === 0)
+                    .onClick(async () => {
+                        if (index > 0) {
+                            filters.splice(index - 1, 0, filters.splice(index, 1)[0]);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove rule')
+                    .onClick(async () => {
+                        filters.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        const testerSetting = new Setting(containerEl)
+            .setName('Test a URL')
+            .setDesc('Paste an image URL to see which rule matches it');
+        const resultEl = containerEl.createDiv('setting-item-description save-images-offline-filter-result');
+        testerSetting.addText(text => text
+            .setPlaceholder('https://example.com/image.png')
+            .onChange(value => {
+                resultEl.setText(value.trim() ? describeFilterResult(this.plugin.settings, value.trim()) : '');
+            }));
+
         // Sponsor section
         containerEl.createEl('hr');
 
@@ -216,3 +754,49 @@ export class SaveImagesOfflineSettingTab extends PluginSettingTab {
 
     }
 }
+
+/**
+ * Summarizes what a domain rule overrides, without revealing its credential
+ * @param rule The domain rule
+ * @returns e.g. "Referer: https://example.com/ · Bearer token · 2 headers"
+ */
+function describeDomainRule(rule: DomainRule): string {
+    const parts: string[] = [];
+    if (rule.referer.trim()) {
+        parts.push(`Referer: ${rule.referer.trim()}`);
+    }
+    if (rule.authType === 'bearer') {
+        parts.push('Bearer token');
+    } else if (rule.authType === 'basic') {
+        parts.push('Basic auth');
+    }
+    if (rule.userAgent.trim()) {
+        parts.push('Custom user agent');
+    }
+    const headerCount = rule.headers.split('\n').filter(line => line.indexOf(':') > 0).length;
+    if (headerCount > 0) {
+        parts.push(`${headerCount} headers`);
+    }
+    if (rule.timeout > 0) {
+        parts.push(`Timeout ${rule.timeout} ms`);
+    }
+    if (rule.retries > 0) {
+        parts.push(`${rule.retries} retries`);
+    }
+    return parts.join(' · ') || 'No overrides';
+}
+
+/**
+ * Describes how the URL filters handle a URL, for the rule tester
+ * @param settings The plugin settings
+ * @param url The URL to test
+ * @returns e.g. "Rule 2 (exclude host *.example.com) matches: skipped"
+ */
+function describeFilterResult(settings: SaveImagesOfflineSettings, url: string): string {
+    const result = evaluateUrlFilters(settings.urlFilters, settings.allowlistOnly, url);
+    const outcome = result.allowed ? 'downloaded' : 'skipped';
+    if (!result.rule) {
+        return `No rule matches${settings.allowlistOnly ? ' (allowlist only)' : ''}: ${outcome}`;
+    }
+    return `Rule ${result.index + 1} (${result.rule.action} ${result.rule.match} ${result.rule.pattern}) matches: ${outcome}`;
+}
@@ -0,0 +1,142 @@
+import { log } from './logger';
+
+/**
+ * Result of sanitizing an SVG
+ */
+export interface SanitizedSvg {
+    data: ArrayBuffer;
+    // Whether active content or external references were removed
+    modified: boolean;
+}
+
+// Elements that run code, embed other documents or play media
+const FORBIDDEN_ELEMENTS = ['script', 'foreignobject', 'iframe', 'embed', 'object', 'audio', 'video', 'handler', 'listener'];
+
+// Animation elements can set attributes such as href to javascript: URLs
+const ANIMATION_ELEMENTS = ['set', 'animate', 'animatetransform', 'animatemotion'];
+
+// Data URIs that are safe to keep in references: raster images can't run code
+const SAFE_DATA_URI = /^data:image\/(png|jpe?g|gif|webp|avif|bmp);/i;
+
+/**
+ * Removes active content and external references from an SVG
+ * Scripts, foreignObject, event handler attributes, javascript: links and references to
+ * anything outside the document (images, fonts, stylesheets, <use> targets) are removed.
+ * @param data The SVG data
+ * @returns The sanitized SVG
+ * @throws Error if the data doesn't parse as an SVG document
+ */
+export function sanitizeSvg(data: ArrayBuffer): SanitizedSvg {
+    const source = new TextDecoder('utf-8').decode(data);
+    const doc = new DOMParser().parseFromString(source, 'image/svg+xml');
+    const root = doc.documentElement;
+
+    if (!root || root.localName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Downloaded file is not a valid SVG');
+    }
+
+    let removed = 0;
+
+    // Processing instructions such as <?xml-stylesheet?> load external stylesheets
+    for (const node of Array.from(doc.childNodes)) {
+        if (node.nodeType === Node.PROCESSING_INSTRUCTION_NODE) {
+            doc.removeChild(node);
+            removed++;
+        }
+    }
+
+    for (const element of Array.from(root.getElementsByTagName('*'))) {
+        if (!element.parentNode) {
+            // Already removed with an ancestor
+            continue;
+        }
+
+        const name = element.localName.toLowerCase();
+        if (FORBIDDEN_ELEMENTS.includes(name) || (ANIMATION_ELEMENTS.includes(name) && animatesUnsafeAttribute(element))) {
+            element.parentNode.removeChild(element);
+            removed++;
+            continue;
+        }
+
+        if (name === 'style' && element.textContent) {
+            const css = sanitizeCss(element.textContent);
+            if (css !== element.textContent) {
+                element.textContent = css;
+                removed++;
+            }
+        }
+    }
+
+    removed += sanitizeAttributes(root);
+    for (const element of Array.from(root.getElementsByTagName('*'))) {
+        removed += sanitizeAttributes(element);
+    }
+
+    if (removed === 0) {
+        return { data, modified: false };
+    }
+
+    log.debug(`Removed ${removed} unsafe parts from SVG`);
+    const sanitized = new XMLSerializer().serializeToString(doc);
+    return { data: new TextEncoder().encode(sanitized).buffer, modified: true };
+}
+
+/**
+ * Removes event handlers, unsafe links and external references from an element's attributes
+ * @param element The element
+ * @returns Number of attributes removed or changed
+ */
+function sanitizeAttributes(element: Element): number {
+    let removed = 0;
+
+    for (const attribute of Array.from(element.attributes)) {
+        const name = attribute.localName.toLowerCase();
+        const value = attribute.value.trim();
+
+        if (name.startsWith('on')) {
+            element.removeAttributeNode(attribute);
+            removed++;
+        } else if ((name === 'href' || name === 'src') && !isSafeReference(value)) {
+            element.removeAttributeNode(attribute);
+            removed++;
+        } else if (/url\s*\(/i.test(value)) {
+            const css = sanitizeCss(attribute.value);
+            if (css !== attribute.value) {
+                attribute.value = css;
+                removed++;
+            }
+        }
+    }
+
+    return removed;
+}
+
+/**
+ * Checks whether an animation element changes an attribute that could load or run something
+ * @param element The animation element
+ * @returns True if it animates href or an event handler
+ */
+function animatesUnsafeAttribute(element: Element): boolean {
+    const attributeName = (element.getAttribute('attributeName') || '').toLowerCase();
+    return /(^|:)href$/.test(attributeName) || attributeName.startsWith('on');
+}
+
+/**
+ * Removes @import rules and url() references to anything outside the document from CSS
+ * @param css The CSS
+ * @returns The CSS without external references
+ */
+function sanitizeCss(css: string): string {
+    return css
+        .replace(/@import[^;]*;?/gi, '')
+        .replace(/url\s*\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, quote, url) => isSafeReference(url) ? match : 'none');
+}
+
+/**
+ * Checks whether a reference stays inside the document
+ * @param value The href, src or url() value
+ * @returns True for fragment references and raster data URIs
+ */
+function isSafeReference(value: string): boolean {
+    return value.startsWith('#') || SAFE_DATA_URI.test(value);
+}
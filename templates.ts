@@ -0,0 +1,47 @@
+import { moment } from 'obsidian';
+
+/**
+ * Resolves the value of a template token
+ * @param arg The text after the colon in {{token:arg}}, if any
+ * @returns The replacement text
+ */
+export type TemplateToken = (arg?: string) => string;
+
+// Matches {{token}} and {{token:arg}}
+const TEMPLATE_TOKEN_REGEX = /\{\{\s*([\w-]+)(?::([^}]*))?\s*\}\}/g;
+
+/**
+ * Replaces the {{token}} placeholders of a template
+ * Unknown tokens are left untouched so typos stay visible in the result.
+ * @param template The template to render
+ * @param tokens Map of token names to their resolvers
+ * @returns The rendered string
+ */
+export function renderTemplate(template: string, tokens: Record<string, TemplateToken>): string {
+    return template.replace(TEMPLATE_TOKEN_REGEX, (match, name: string, arg?: string) => {
+        const token = tokens[name.toLowerCase()];
+        return token ? token(arg) : match;
+    });
+}
+
+/**
+ * Formats the current date for a {{date}} or {{date:FORMAT}} token
+ * @param format A moment.js format string
+ * @returns The formatted date
+ */
+export function formatDateToken(format?: string): string {
+    return moment().format(format || 'YYYY-MM-DD');
+}
+
+/**
+ * Gets the hostname of a URL for a {{domain}} token
+ * @param url The URL
+ * @returns The hostname, or an empty string if the URL can't be parsed
+ */
+export function getDomainToken(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch (error) {
+        return '';
+    }
+}
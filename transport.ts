@@ -0,0 +1,323 @@
+import { requestUrl } from 'obsidian';
+import { log } from './logger';
+
+/**
+ * An HTTP GET request made by the download pipeline
+ */
+export interface TransportRequest {
+    url: string;
+    headers: Record<string, string>;
+    // Timeout in milliseconds
+    timeout: number;
+    // Largest response body accepted, in bytes (0 for no limit)
+    maxBytes?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * The response to a TransportRequest
+ * HTTP error statuses are returned, not thrown.
+ */
+export interface TransportResponse {
+    status: number;
+    // Header names are lower case
+    headers: Record<string, string>;
+    data: ArrayBuffer;
+}
+
+/**
+ * Something that can perform HTTP requests for the plugin
+ * Implementations throw TransportTimeoutError on timeout, TransportSizeError when the body
+ * exceeds maxBytes, and any other error when no response was received at all.
+ */
+export interface HttpTransport {
+    readonly name: string;
+    request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Error thrown by transports when a request takes longer than its timeout
+ */
+export class TransportTimeoutError extends Error {
+    constructor(url: string, timeout: number) {
+        super(`Request to ${url} timed out after ${timeout} ms`);
+        this.name = 'TransportTimeoutError';
+    }
+}
+
+/**
+ * Error thrown by transports when a response body is larger than allowed
+ */
+export class TransportSizeError extends Error {
+    /**
+     * @param url The requested URL
+     * @param size Size of the body, as announced by Content-Length or as received so far
+     * @param maxBytes The limit
+     */
+    constructor(url: string, public readonly size: number, public readonly maxBytes: number) {
+        super(`Response from ${url} is larger than ${maxBytes} bytes (${size} bytes)`);
+        this.name = 'TransportSizeError';
+    }
+}
+
+/**
+ * Transport built on Obsidian's requestUrl
+ * Not subject to CORS, and able to send headers like Referer that browsers refuse to set,
+ * on desktop and mobile alike. requestUrl can't stream: with a size limit, the Content-Length
+ * is checked with a HEAD request first. A server that doesn't announce the size is still
+ * downloaded in full before the limit is checked, so this doesn't protect against large bodies.
+ */
+export class RequestUrlTransport implements HttpTransport {
+    readonly name = 'requestUrl';
+
+    async request(request: TransportRequest): Promise<TransportResponse> {
+        const maxBytes = request.maxBytes || 0;
+        if (maxBytes > 0) {
+            await this.checkContentLength(request, maxBytes);
+        }
+
+        // requestUrl can't be aborted; stop waiting for it instead
+        const response = await withTimeout(
+            requestUrl({ url: request.url, headers: request.headers, throw: false }),
+            request
+        );
+
+        if (maxBytes > 0 && response.arrayBuffer.byteLength > maxBytes) {
+            throw new TransportSizeError(request.url, response.arrayBuffer.byteLength, maxBytes);
+        }
+
+        return {
+            status: response.status,
+            headers: lowerCaseKeys(response.headers || {}),
+            data: response.arrayBuffer
+        };
+    }
+
+    /**
+     * Asks the server for the size of the body without downloading it
+     * Runs in the download's queue slot, so it is covered by the same concurrency limits.
+     * Servers that don't answer HEAD requests are given the benefit of the doubt.
+     * @param request The request
+     * @param maxBytes The size limit
+     * @throws TransportSizeError if the announced Content-Length exceeds the limit
+     */
+    private async checkContentLength(request: TransportRequest, maxBytes: number): Promise<void> {
+        let length = NaN;
+        try {
+            const head = await withTimeout(
+                requestUrl({ url: request.url, method: 'HEAD', headers: request.headers, throw: false }),
+                request
+            );
+            length = Number(lowerCaseKeys(head.headers || {})['content-length']);
+        } catch (error) {
+            if (error instanceof TransportTimeoutError || (request.signal && request.signal.aborted)) {
+                throw error;
+            }
+            log.debug(`HEAD request for ${request.url} failed: ${error.message}`);
+        }
+
+        if (length > maxBytes) {
+            throw new TransportSizeError(request.url, length, maxBytes);
+        }
+    }
+}
+
+/**
+ * Transport built on the browser's fetch
+ * Subject to CORS; headers the browser forbids, such as User-Agent and Referer, are dropped.
+ */
+export class FetchTransport implements HttpTransport {
+    readonly name = 'fetch';
+
+    async request(request: TransportRequest): Promise<TransportResponse> {
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        if (request.signal) {
+            request.signal.addEventListener('abort', abort);
+        }
+
+        let timedOut = false;
+        const timeoutId = window.setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, request.timeout);
+
+        try {
+            const response = await fetch(request.url, {
+                signal: controller.signal,
+                headers: request.headers
+            });
+
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, key) => {
+                headers[key.toLowerCase()] = value;
+            });
+
+            const maxBytes = request.maxBytes || 0;
+            if (maxBytes > 0 && Number(headers['content-length']) > maxBytes) {
+                controller.abort();
+                throw new TransportSizeError(request.url, Number(headers['content-length']), maxBytes);
+            }
+
+            return {
+                status: response.status,
+                headers,
+                data: maxBytes > 0 && response.body ?
+                    await readLimited(response.body, request.url, maxBytes, controller) :
+                    await response.arrayBuffer()
+            };
+        } catch (error) {
+            if (timedOut && !(error instanceof TransportSizeError)) {
+                throw new TransportTimeoutError(request.url, request.timeout);
+            }
+            throw error;
+        } finally {
+            window.clearTimeout(timeoutId);
+            if (request.signal) {
+                request.signal.removeEventListener('abort', abort);
+            }
+        }
+    }
+}
+
+/**
+ * Tries a primary transport and falls back to a secondary one when no response is received
+ */
+export class FallbackTransport implements HttpTransport {
+    readonly name: string;
+
+    constructor(private primary: HttpTransport, private secondary: HttpTransport) {
+        this.name = `${primary.name} with ${secondary.name} fallback`;
+    }
+
+    async request(request: TransportRequest): Promise<TransportResponse> {
+        try {
+            return await this.primary.request(request);
+        } catch (error) {
+            if (error instanceof TransportTimeoutError || error instanceof TransportSizeError ||
+                (request.signal && request.signal.aborted)) {
+                throw error;
+            }
+            log.warn(`${this.primary.name} failed for ${request.url} (${error.message}), trying ${this.secondary.name}`);
+            return this.secondary.request(request);
+        }
+    }
+}
+
+/**
+ * Picks the transport order depending on whether the request has a size limit
+ * Without a limit requestUrl goes first, as it isn't subject to CORS. With a limit fetch goes
+ * first, as it can refuse a large body while streaming it; requestUrl is the fallback for
+ * hosts that don't allow CORS.
+ */
+export class SizeAwareTransport implements HttpTransport {
+    readonly name: string;
+    private unlimited: HttpTransport;
+    private limited: HttpTransport;
+
+    constructor(requestUrlTransport: HttpTransport, fetchTransport: HttpTransport) {
+        this.unlimited = new FallbackTransport(requestUrlTransport, fetchTransport);
+        this.limited = new FallbackTransport(fetchTransport, requestUrlTransport);
+        this.name = `${this.unlimited.name}, or ${this.limited.name} with a size limit`;
+    }
+
+    request(request: TransportRequest): Promise<TransportResponse> {
+        return (request.maxBytes ? this.limited : this.unlimited).request(request);
+    }
+}
+
+/**
+ * Creates the transport used when no custom transport is plugged in
+ * @returns requestUrl with fetch as a fallback, or the other way round when there is a size limit
+ */
+export function createDefaultTransport(): HttpTransport {
+    return new SizeAwareTransport(new RequestUrlTransport(), new FetchTransport());
+}
+
+/**
+ * Waits for a promise, rejecting once the request's timeout passes or its signal aborts
+ * @param promise The promise to wait for
+ * @param request The request the promise belongs to
+ * @returns The promise's result
+ */
+function withTimeout<T>(promise: Promise<T>, request: TransportRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const abort = () => reject(new Error(`Request to ${request.url} was aborted`));
+        const timeoutId = window.setTimeout(
+            () => reject(new TransportTimeoutError(request.url, request.timeout)),
+            request.timeout
+        );
+        if (request.signal) {
+            request.signal.addEventListener('abort', abort);
+        }
+
+        const cleanup = () => {
+            window.clearTimeout(timeoutId);
+            if (request.signal) {
+                request.signal.removeEventListener('abort', abort);
+            }
+        };
+
+        promise.then(
+            value => {
+                cleanup();
+                resolve(value);
+            },
+            error => {
+                cleanup();
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Reads a response body, stopping as soon as it exceeds the size limit
+ * @param body The response body stream
+ * @param url The requested URL
+ * @param maxBytes The size limit
+ * @param controller Aborts the request when the limit is exceeded
+ * @returns The body
+ * @throws TransportSizeError if the body exceeds the limit
+ */
+async function readLimited(
+    body: ReadableStream<Uint8Array>,
+    url: string,
+    maxBytes: number,
+    controller: AbortController
+): Promise<ArrayBuffer> {
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        if (value) {
+            size += value.length;
+            if (size > maxBytes) {
+                controller.abort();
+                throw new TransportSizeError(url, size, maxBytes);
+            }
+            chunks.push(value);
+        }
+    }
+
+    const result = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result.buffer;
+}
+
+function lowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const key of Object.keys(headers)) {
+        result[key.toLowerCase()] = headers[key];
+    }
+    return result;
+}
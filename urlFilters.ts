@@ -0,0 +1,106 @@
+import { matchesHostGlob } from './domainRules';
+import { log } from './logger';
+
+/**
+ * What a matching filter rule does with an image URL
+ */
+export type UrlFilterAction = 'include' | 'exclude';
+
+/**
+ * How a filter rule's pattern is matched
+ * - host: host name or glob, e.g. "*.example.com"
+ * - regex: regular expression tested against the whole URL, case-insensitive
+ * - path: URL prefix without the scheme, e.g. "example.com/images/", or a path prefix starting with "/"
+ */
+export type UrlFilterMatch = 'host' | 'regex' | 'path';
+
+/**
+ * A rule of the ordered URL filter list
+ */
+export interface UrlFilterRule {
+    action: UrlFilterAction;
+    match: UrlFilterMatch;
+    pattern: string;
+}
+
+/**
+ * Outcome of filtering a URL
+ */
+export interface UrlFilterResult {
+    // Whether the image may be downloaded
+    allowed: boolean;
+    // The rule that decided, or null if no rule matched
+    rule: UrlFilterRule | null;
+    // Position of the rule in the list, -1 if no rule matched
+    index: number;
+}
+
+/**
+ * Decides whether an image URL may be downloaded
+ * The first matching rule decides. When no rule matches, the URL is allowed, unless the
+ * allowlist-only mode requires an include rule for every download.
+ * @param rules The filter rules, in order
+ * @param allowlistOnly Whether URLs no rule includes are skipped
+ * @param url The image URL
+ * @returns Whether the URL is allowed and which rule decided
+ */
+export function evaluateUrlFilters(rules: UrlFilterRule[], allowlistOnly: boolean, url: string): UrlFilterResult {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch (error) {
+        return { allowed: !allowlistOnly, rule: null, index: -1 };
+    }
+
+    for (let i = 0; i < rules.length; i++) {
+        if (matchesRule(rules[i], parsed)) {
+            return { allowed: rules[i].action === 'include', rule: rules[i], index: i };
+        }
+    }
+    return { allowed: !allowlistOnly, rule: null, index: -1 };
+}
+
+/**
+ * Converts the old comma-separated list of ignored domains to filter rules
+ * Each domain is excluded together with its subdomains, as before.
+ * @param ignoredDomains Comma-separated domains
+ * @returns Exclude rules for the domains
+ */
+export function migrateIgnoredDomains(ignoredDomains: string): UrlFilterRule[] {
+    const rules: UrlFilterRule[] = [];
+    for (const domain of ignoredDomains.split(',').map(d => d.trim().toLowerCase()).filter(d => d.length > 0)) {
+        rules.push({ action: 'exclude', match: 'host', pattern: domain });
+        rules.push({ action: 'exclude', match: 'host', pattern: `*.${domain}` });
+    }
+    return rules;
+}
+
+/**
+ * Checks whether a URL matches a filter rule
+ * @param rule The rule
+ * @param url The parsed URL
+ * @returns True if the rule's pattern matches
+ */
+function matchesRule(rule: UrlFilterRule, url: URL): boolean {
+    const pattern = rule.pattern.trim();
+    if (!pattern) {
+        return false;
+    }
+
+    switch (rule.match) {
+        case 'host':
+            return matchesHostGlob(url.hostname, pattern);
+        case 'path':
+            return pattern.startsWith('/') ?
+                url.pathname.startsWith(pattern) :
+                `${url.host}${url.pathname}`.toLowerCase().startsWith(pattern.toLowerCase());
+        case 'regex':
+            try {
+                return new RegExp(pattern, 'i').test(url.href);
+            } catch (error) {
+                log.warn(`Invalid URL filter regex ${pattern}: ${error.message}`);
+                return false;
+            }
+    }
+    return false;
+}
@@ -1,12 +1,28 @@
-import { Notice, TFile, Vault } from 'obsidian';
-import * as path from 'path';
+import { Notice, TAbstractFile, TFile, Vault } from 'obsidian';
 import { createHash } from 'crypto';
 import { log } from './logger';
+import { HttpTransport, TransportSizeError, TransportTimeoutError } from './transport';
 
-// Regular expressions for finding image URLs in markdown
-// Modified to support complex URLs like CDN/proxy URLs with image type in query parameters
-export const IMAGE_URL_REGEX = /!\[(.*?)\]\((https?:\/\/[^\s\)]+)\)/g;
-export const HTML_IMG_REGEX = /<img.*?src=["'](https?:\/\/[^\s"']+)["'].*?>/g;
+// Extensions of files that Obsidian displays as images
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif', 'tif', 'tiff', 'ico', 'heic', 'heif'];
+
+/**
+ * Checks whether a vault file is an image
+ * @param file The file to check
+ * @returns True if the file has an image extension
+ */
+export function isImageFile(file: TFile): boolean {
+    return IMAGE_EXTENSIONS.includes(file.extension.toLowerCase());
+}
+
+/**
+ * Checks whether a vault file can contain images to save: a note or a canvas
+ * @param file The file to check
+ * @returns True if the file is a markdown or canvas file
+ */
+export function isProcessableFile(file: TAbstractFile): file is TFile {
+    return file instanceof TFile && (file.extension === 'md' || file.extension === 'canvas');
+}
 
 // Helper function to check if a URL is likely an image URL
 export function isLikelyImageUrl(url: string): boolean {
@@ -70,145 +86,266 @@ export function isLikelyImageUrl(url: string): boolean {
     return result;
 }
 
+/**
+ * Data downloaded from an image URL
+ */
+export interface DownloadedImage {
+    data: ArrayBuffer;
+    // Content-Type header of the response ('' if missing)
+    contentType: string;
+}
+
+/**
+ * Error thrown when an image can't be downloaded
+ */
+export class DownloadError extends Error {
+    /**
+     * @param message Description of the failure
+     * @param kind What went wrong
+     * @param status HTTP status, if the server answered
+     * @param retryAfter Delay requested by the server's Retry-After header, in milliseconds
+     */
+    constructor(
+        message: string,
+        public readonly kind: 'http' | 'timeout' | 'network',
+        public readonly status?: number,
+        public readonly retryAfter?: number
+    ) {
+        super(message);
+        this.name = 'DownloadError';
+    }
+
+    /**
+     * Whether the image is gone for good (404 Not Found or 410 Gone)
+     */
+    get permanent(): boolean {
+        return this.status === 404 || this.status === 410;
+    }
+
+    /**
+     * Whether trying again right away might help
+     */
+    get retryable(): boolean {
+        if (this.status === undefined) {
+            return true;
+        }
+        return this.status === 408 || this.status === 429 || this.status >= 500;
+    }
+}
+
+/**
+ * Error thrown when an image is deliberately not saved, e.g. because it is too large
+ */
+export class ImageSkippedError extends Error {
+    /**
+     * @param reason Short reason shown in the stats, e.g. "too large"
+     * @param message Description of why the image was skipped
+     * @param removeLink Whether the link to the image should be removed from the note
+     */
+    constructor(public readonly reason: string, message: string, public readonly removeLink: boolean = false) {
+        super(message);
+        this.name = 'ImageSkippedError';
+    }
+}
+
+// Longest Retry-After we wait for within a run; longer delays are left to the failure registry
+const MAX_INLINE_RETRY_DELAY = 30 * 1000;
+
+/**
+ * Options for downloading an image
+ */
+export interface DownloadOptions {
+    // Request headers
+    headers?: Record<string, string>;
+    // Timeout in milliseconds
+    timeout?: number;
+    // Number of retries if download fails
+    retries?: number;
+    // Largest image accepted, in bytes (0 for no limit)
+    maxBytes?: number;
+    // Aborts the download and any further retries
+    signal?: AbortSignal;
+}
+
 /**
  * Downloads an image from a URL
+ * Failed attempts are retried with exponential backoff, honoring the server's Retry-After header.
  * @param url The URL of the image to download
- * @param timeout Timeout in milliseconds
- * @param retries Number of retries if download fails
- * @returns ArrayBuffer of the downloaded image or null if download failed
+ * @param transport The transport performing the requests
+ * @param options Headers, timeout, retries, size limit and abort signal
+ * @returns The downloaded data and its Content-Type
+ * @throws DownloadError if every attempt failed
+ * @throws ImageSkippedError if the image is larger than maxBytes
  */
 export async function downloadImage(
     url: string,
-    timeout: number = 30000,
-    retries: number = 3
-): Promise<ArrayBuffer | null> {
+    transport: HttpTransport,
+    options: DownloadOptions = {}
+): Promise<DownloadedImage> {
+    const {
+        headers = { 'Accept': 'image/*,*/*;q=0.8' },
+        timeout = 30000,
+        retries = 3,
+        maxBytes = 0,
+        signal
+    } = options;
     let attempts = 0;
 
-    log.debug(`Attempting to download image from URL: ${url}`);
+    log.debug(`Attempting to download image from URL: ${url} using ${transport.name}`);
+
+    while (true) {
+        if (signal && signal.aborted) {
+            throw new DownloadError(`Download cancelled for URL: ${url}`, 'network');
+        }
 
-    while (attempts < retries) {
         try {
             log.debug(`Download attempt ${attempts + 1} for URL: ${url}`);
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => {
-                log.warn(`Download timeout for URL: ${url}`);
-                controller.abort();
-            }, timeout);
-
-            const response = await fetch(url, {
-                signal: controller.signal,
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-                    'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
-                    'Referer': new URL(url).origin
-                }
+            const response = await transport.request({
+                url,
+                headers,
+                timeout,
+                maxBytes,
+                signal
             });
 
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
+            if (response.status < 200 || response.status >= 300) {
+                throw new DownloadError(
+                    `HTTP error! status: ${response.status}`,
+                    'http',
+                    response.status,
+                    parseRetryAfter(response.headers['retry-after'])
+                );
             }
 
             log.info(`Successfully downloaded image from URL: ${url}`);
-            return await response.arrayBuffer();
-        } catch (error) {
+            return { data: response.data, contentType: response.headers['content-type'] || '' };
+        } catch (caught) {
+            if (caught instanceof TransportSizeError) {
+                throw new ImageSkippedError('too large', `${url} is larger than ${formatBytes(maxBytes)}`);
+            }
+
+            const error = caught instanceof DownloadError ? caught :
+                caught instanceof TransportTimeoutError ? new DownloadError(caught.message, 'timeout') :
+                new DownloadError(caught instanceof Error ? caught.message : String(caught), 'network');
+
             attempts++;
             log.warn(`Attempt ${attempts} failed for URL: ${url}. Error: ${error.message}`);
-            if (attempts >= retries) {
-                log.error(`Failed to download image from ${url} after ${retries} attempts: ${error.message}`);
-                return null;
+
+            const retryDelay = Math.max(1000 * Math.pow(2, attempts - 1), error.retryAfter || 0);
+            if (attempts >= retries || !error.retryable || retryDelay > MAX_INLINE_RETRY_DELAY ||
+                (signal && signal.aborted)) {
+                log.error(`Failed to download image from ${url} after ${attempts} attempts: ${error.message}`);
+                throw error;
             }
+
             // Wait before retrying
-            await new Promise(resolve => setTimeout(resolve, 1000));
+            await sleep(retryDelay, signal, () => new DownloadError(`Download cancelled for URL: ${url}`, 'network'));
         }
     }
+}
 
-    return null;
+/**
+ * Waits for a delay, or until the signal aborts
+ * @param ms The delay in milliseconds
+ * @param signal Cancels the wait
+ * @param onAbort Creates the error to reject with when the signal aborts
+ */
+function sleep(ms: number, signal: AbortSignal | undefined, onAbort: () => Error): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal && signal.aborted) {
+            reject(onAbort());
+            return;
+        }
+        const abort = () => {
+            clearTimeout(timer);
+            reject(onAbort());
+        };
+        const timer = setTimeout(() => {
+            if (signal) {
+                signal.removeEventListener('abort', abort);
+            }
+            resolve();
+        }, ms);
+        if (signal) {
+            signal.addEventListener('abort', abort, { once: true });
+        }
+    });
 }
 
 /**
- * Converts an ArrayBuffer to a base64 string
- * @param buffer The ArrayBuffer to convert
- * @returns Base64 string
+ * Parses a Retry-After header
+ * @param value The header value: a number of seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if absent or invalid
  */
-export function arrayBufferToBase64(buffer: ArrayBuffer): string {
-    let binary = '';
-    const bytes = new Uint8Array(buffer);
-    const len = bytes.byteLength;
+function parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
 
-    for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(bytes[i]);
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
     }
 
-    return window.btoa(binary);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 /**
- * Converts a PNG image to JPEG
- * @param buffer The PNG image as an ArrayBuffer
- * @param quality JPEG quality (1-100)
- * @returns Promise resolving to the JPEG image as an ArrayBuffer
+ * Decodes a data URI, e.g. data:image/png;base64,iVBOR...
+ * @param uri The data URI
+ * @returns The decoded data and its media type
+ * @throws Error if the URI is malformed
  */
-export async function convertPngToJpeg(
-    buffer: ArrayBuffer,
-    quality: number = 85
-): Promise<ArrayBuffer> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        const blob = new Blob([buffer], { type: 'image/png' });
-        const url = URL.createObjectURL(blob);
-
-        img.onload = () => {
-            URL.revokeObjectURL(url);
-
-            const canvas = document.createElement('canvas');
-            canvas.width = img.width;
-            canvas.height = img.height;
+export function decodeDataUri(uri: string): DownloadedImage {
+    const match = /^data:([^,]*?)(;base64)?,([\s\S]*)$/i.exec(uri);
+    if (!match) {
+        throw new Error('Malformed data URI');
+    }
+    const contentType = match[1].split(';')[0].trim().toLowerCase();
 
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                reject(new Error('Failed to get canvas context'));
-                return;
+    try {
+        if (match[2]) {
+            const binary = window.atob(match[3].replace(/\s+/g, ''));
+            const bytes = new Uint8Array(binary.length);
+            for (let i = 0; i < binary.length; i++) {
+                bytes[i] = binary.charCodeAt(i);
             }
+            return { data: bytes.buffer, contentType };
+        }
+        // Percent-encoded text, as used for SVGs
+        return { data: new TextEncoder().encode(decodeURIComponent(match[3])).buffer, contentType };
+    } catch (error) {
+        throw new Error(`Malformed data URI: ${error.message}`);
+    }
+}
 
-            // Draw image on canvas with white background (for transparent PNGs)
-            ctx.fillStyle = 'white';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-            ctx.drawImage(img, 0, 0);
-
-            // Convert to JPEG
-            canvas.toBlob(
-                (blob) => {
-                    if (!blob) {
-                        reject(new Error('Failed to convert PNG to JPEG'));
-                        return;
-                    }
+/**
+ * Describes a data URI for logs and messages without its payload
+ * @param uri The data URI
+ * @returns e.g. "data:image/png (12.3 KB)"
+ */
+export function describeDataUri(uri: string): string {
+    const comma = uri.indexOf(',');
+    const mediaType = uri.substring(0, comma === -1 ? Math.min(uri.length, 40) : comma).split(';')[0];
+    return `${mediaType} (${formatBytes(uri.length)})`;
+}
 
-                    // Convert blob to ArrayBuffer
-                    const reader = new FileReader();
-                    reader.onload = () => {
-                        if (reader.result instanceof ArrayBuffer) {
-                            resolve(reader.result);
-                        } else {
-                            reject(new Error('Failed to read converted JPEG'));
-                        }
-                    };
-                    reader.onerror = () => reject(reader.error);
-                    reader.readAsArrayBuffer(blob);
-                },
-                'image/jpeg',
-                quality / 100
-            );
-        };
+/**
+ * Converts an ArrayBuffer to a base64 string
+ * @param buffer The ArrayBuffer to convert
+ * @returns Base64 string
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    let binary = '';
+    const bytes = new Uint8Array(buffer);
+    const len = bytes.byteLength;
 
-        img.onerror = () => {
-            URL.revokeObjectURL(url);
-            reject(new Error('Failed to load PNG image for conversion'));
-        };
+    for (let i = 0; i < len; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
 
-        img.src = url;
-    });
+    return window.btoa(binary);
 }
 
 /**
@@ -221,18 +358,50 @@ export function calculateMD5(buffer: ArrayBuffer): string {
 }
 
 /**
- * Sanitizes a filename by removing invalid characters
+ * Checks whether two buffers hold the same bytes
+ * @param a The first buffer
+ * @param b The second buffer
+ * @returns True if the contents are identical
+ */
+export function arrayBuffersEqual(a: ArrayBuffer, b: ArrayBuffer): boolean {
+    if (a.byteLength !== b.byteLength) {
+        return false;
+    }
+
+    const bytesA = new Uint8Array(a);
+    const bytesB = new Uint8Array(b);
+    for (let i = 0; i < bytesA.length; i++) {
+        if (bytesA[i] !== bytesB[i]) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Sanitizes a filename so it is safe on every platform and sync tool
+ * Accents are stripped, whitespace and any other character outside [A-Za-z0-9._-]
+ * become '-', and the result is trimmed to maxLength.
  * @param filename The filename to sanitize
- * @returns Sanitized filename
+ * @param maxLength Maximum length of the result
+ * @returns Sanitized filename (may be empty)
  */
-export function sanitizeFilename(filename: string): string {
-    return filename.replace(/[\\/:*?"<>|]/g, '_');
+export function sanitizeFilename(filename: string, maxLength: number = 100): string {
+    const sanitized = filename
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^A-Za-z0-9._-]+/g, '-')
+        .replace(/-{2,}/g, '-')
+        .replace(/^[-.]+|[-.]+$/g, '');
+
+    return sanitized.substring(0, maxLength).replace(/[-.]+$/, '');
 }
 
 /**
  * Gets the file extension from a URL
  * @param url The URL to extract extension from
- * @returns The file extension (without the dot)
+ * @returns The file extension (without the dot), or an empty string if the URL has none
  */
 export function getFileExtension(url: string): string {
     log.debug(`Getting file extension for URL: ${url}`);
@@ -349,19 +518,8 @@ export function getFileExtension(url: string): string {
         }
     }
 
-    // If no extension could be determined, use a default
     if (!extension) {
-        log.debug(`No extension found in URL: ${url}, defaulting to jpg`);
-        extension = 'jpg';
-    }
-
-    // Handle special cases for certain extensions
-    if (extension === 'awebp') {
-        log.debug(`Converting awebp extension to jpg for better compatibility`);
-        extension = 'jpg';
-    } else if (extension === 'webp') {
-        log.debug(`Converting webp extension to jpg for better compatibility`);
-        extension = 'jpg';
+        log.debug(`No extension found in URL: ${url}`);
     }
 
     return extension;
@@ -379,11 +537,34 @@ export async function ensureFolderExists(vault: Vault, folderPath: string): Prom
     for (const folder of folders) {
         currentPath = currentPath ? `${currentPath}/${folder}` : folder;
         if (!(await vault.adapter.exists(currentPath))) {
-            await vault.createFolder(currentPath);
+            try {
+                await vault.createFolder(currentPath);
+            } catch (error) {
+                // Another download may have created the same folder in the meantime
+                if (!(await vault.adapter.exists(currentPath))) {
+                    throw error;
+                }
+            }
         }
     }
 }
 
+/**
+ * Formats a byte count for display
+ * @param bytes The number of bytes
+ * @returns The size, e.g. "1.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
 /**
  * Shows a notification
  * @param message The message to show
@@ -392,26 +573,3 @@ export async function ensureFolderExists(vault: Vault, folderPath: string): Prom
 export function showNotice(message: string, duration: number = 3000): void {
     new Notice(message, duration);
 }
-
-/**
- * Checks if a URL is from an ignored domain
- * @param url The URL to check
- * @param ignoredDomains Comma-separated list of domains to ignore
- * @returns True if the URL is from an ignored domain
- */
-export function isIgnoredDomain(url: string, ignoredDomains: string): boolean {
-    if (!ignoredDomains) return false;
-
-    try {
-        const urlObj = new URL(url);
-        const domain = urlObj.hostname;
-        const ignoredList = ignoredDomains.split(',').map(d => d.trim().toLowerCase());
-
-        return ignoredList.some(ignoredDomain =>
-            domain === ignoredDomain || domain.endsWith(`.${ignoredDomain}`)
-        );
-    } catch (error) {
-        console.error('Error parsing URL:', error);
-        return false;
-    }
-}